@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+
+import { ACCESS_TOKEN_TTL_SECONDS, mintAccessToken } from '@/utils/accessToken';
+
+// tokens must never be served from a cache
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const secret = process.env.FX_ACCESS_TOKEN_SECRET;
+  if (!secret) {
+    return NextResponse.json(
+      { error: 'Access tokens are not configured' },
+      { status: 500 },
+    );
+  }
+
+  return NextResponse.json(
+    {
+      accessToken: mintAccessToken(secret),
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    },
+    { headers: { 'Cache-Control': 'no-store' } },
+  );
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+
+import { BargeInDetector } from './BargeInDetector';
+
+const SAMPLE_RATE = 16000;
+// 20 ms frames
+const FRAME_SIZE = 320;
+const FRAME_MS = 20;
+
+/** A frame of constant level, in dBFS. */
+const frame = (level: number) =>
+  new Float32Array(FRAME_SIZE).fill(10 ** (level / 20));
+
+const LOUD = frame(-10);
+const QUIET = frame(-60);
+
+/** Feed `frames` loud frames, returning what the detector said for each. */
+const feedLoud = (detector: BargeInDetector, frames: number) =>
+  Array.from({ length: frames }, () => detector.process(LOUD, SAMPLE_RATE));
+
+describe('BargeInDetector', () => {
+  it('maps sensitivity onto the loudness and duration needed', () => {
+    const least = new BargeInDetector({ sensitivity: 0 });
+    expect(least.minEnergy).toBe(-24);
+    expect(least.minDuration).toBe(400);
+
+    const most = new BargeInDetector({ sensitivity: 1 });
+    expect(most.minEnergy).toBe(-44);
+    expect(most.minDuration).toBe(120);
+
+    const middle = new BargeInDetector();
+    expect(middle.minEnergy).toBe(-34);
+    expect(middle.minDuration).toBe(260);
+  });
+
+  it('clamps sensitivity to between 0 and 1', () => {
+    const below = new BargeInDetector({ sensitivity: -1 });
+    expect(below.minEnergy).toBe(-24);
+    expect(below.minDuration).toBe(400);
+
+    const above = new BargeInDetector({ sensitivity: 2 });
+    expect(above.minEnergy).toBe(-44);
+    expect(above.minDuration).toBe(120);
+  });
+
+  it('ignores frames quieter than minEnergy', () => {
+    const detector = new BargeInDetector({ sensitivity: 0 });
+    // louder than the most sensitive setting needs, but not this one
+    const level = frame(-30);
+
+    for (let i = 0; i < 50; i++) {
+      expect(detector.process(level, SAMPLE_RATE)).toBe(false);
+    }
+  });
+
+  it('triggers once loud frames have lasted minDuration', () => {
+    const detector = new BargeInDetector({ sensitivity: 1 });
+    const frames = detector.minDuration / FRAME_MS;
+
+    const results = feedLoud(detector, frames);
+    expect(results.slice(0, -1)).not.toContain(true);
+    expect(results[frames - 1]).toBe(true);
+  });
+
+  it('starts the duration over after a quiet frame', () => {
+    const detector = new BargeInDetector({ sensitivity: 1 });
+    const frames = detector.minDuration / FRAME_MS;
+
+    expect(feedLoud(detector, frames - 1)).not.toContain(true);
+    expect(detector.process(QUIET, SAMPLE_RATE)).toBe(false);
+    expect(feedLoud(detector, frames - 1)).not.toContain(true);
+    expect(detector.process(LOUD, SAMPLE_RATE)).toBe(true);
+  });
+
+  it('counts the duration of each frame from its sample rate', () => {
+    const detector = new BargeInDetector({ sensitivity: 1 });
+
+    // 320 samples at 8 kHz are 40 ms, so half as many frames are needed
+    const frames = detector.minDuration / (2 * FRAME_MS);
+    const results = Array.from({ length: frames }, () =>
+      detector.process(LOUD, SAMPLE_RATE / 2),
+    );
+    expect(results[frames - 1]).toBe(true);
+  });
+
+  it('triggers only once until reset', () => {
+    const detector = new BargeInDetector({ sensitivity: 1 });
+    const frames = detector.minDuration / FRAME_MS;
+    feedLoud(detector, frames);
+
+    expect(feedLoud(detector, 2 * frames)).not.toContain(true);
+
+    detector.reset();
+    const results = feedLoud(detector, frames);
+    expect(results.slice(0, -1)).not.toContain(true);
+    expect(results[frames - 1]).toBe(true);
+  });
+
+  it('forgets a partial run on reset', () => {
+    const detector = new BargeInDetector({ sensitivity: 1 });
+    const frames = detector.minDuration / FRAME_MS;
+    feedLoud(detector, frames - 1);
+
+    detector.reset();
+    expect(detector.process(LOUD, SAMPLE_RATE)).toBe(false);
+  });
+});
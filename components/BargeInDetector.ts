@@ -0,0 +1,65 @@
+import { energyDb } from './VoiceActivityDetector';
+
+export type BargeInDetectorOptions = {
+  /**
+   * @default 0.5
+   * @description From 0 to 1. Higher values interrupt on quieter and shorter
+   * speech, but are more likely to be triggered by the assistant's own voice
+   * coming back through the microphone.
+   */
+  sensitivity?: number;
+};
+
+// the least and most sensitive settings
+const MIN_ENERGY_RANGE: [number, number] = [-24, -44];
+const MIN_DURATION_RANGE: [number, number] = [400, 120];
+
+const lerp = ([from, to]: [number, number], t: number): number =>
+  from + (to - from) * t;
+
+/**
+ * Decides when the user talks over the assistant. While the assistant is
+ * playing, the microphone also picks up its voice, so speech has to be both
+ * louder and longer than is needed to merely detect it.
+ */
+export class BargeInDetector {
+  /** Frames quieter than this do not count, in dBFS. */
+  public readonly minEnergy: number;
+  /** Milliseconds of consecutive loud frames needed to interrupt. */
+  public readonly minDuration: number;
+
+  private loudRun = 0;
+  private triggered = false;
+
+  constructor(options: BargeInDetectorOptions = {}) {
+    const sensitivity = Math.max(0, Math.min(1, options.sensitivity ?? 0.5));
+    this.minEnergy = lerp(MIN_ENERGY_RANGE, sensitivity);
+    this.minDuration = lerp(MIN_DURATION_RANGE, sensitivity);
+  }
+
+  /**
+   * Feed the next microphone frame captured during playback.
+   * @returns true for the frame that triggers an interruption, and false
+   * afterwards until `reset`
+   */
+  process(samples: Float32Array, sampleRate: number): boolean {
+    if (this.triggered) {
+      return false;
+    }
+    if (energyDb(samples) < this.minEnergy) {
+      this.loudRun = 0;
+      return false;
+    }
+    this.loudRun += (samples.length / sampleRate) * 1000;
+    if (this.loudRun >= this.minDuration) {
+      this.triggered = true;
+      return true;
+    }
+    return false;
+  }
+
+  reset(): void {
+    this.loudRun = 0;
+    this.triggered = false;
+  }
+}
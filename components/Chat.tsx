@@ -5,13 +5,20 @@ import { VoiceProvider } from "./VoiceProvider";
 import Messages from "./Messages";
 import Controls from "./Controls";
 import StartCall from "./StartCall";
+import { fetchAccessToken } from "./auth";
 
 export default function ClientComponent({
 }: {
 }) {
   const timeout = useRef<number | null>(null);
   const ref = useRef<ComponentRef<typeof Messages> | null>(null);
-  
+  const socketConfig = process.env.NEXT_PUBLIC_FX_HOST
+    ? { hostname: process.env.NEXT_PUBLIC_FX_HOST }
+    : {
+        sendHostname: process.env.NEXT_PUBLIC_FX_SEND_HOST || "ws://localhost:3001",
+        recvHostname: process.env.NEXT_PUBLIC_FX_RECV_HOST || "ws://localhost:3002",
+      };
+
   return (
     <div
       className={
@@ -19,8 +26,29 @@ export default function ClientComponent({
       }
     >
       <VoiceProvider
-        sendHostname={process.env.NEXT_PUBLIC_FX_SEND_HOST || "ws://localhost:3001"}
-        recvHostname={process.env.NEXT_PUBLIC_FX_RECV_HOST || "ws://localhost:3002"}
+        {...socketConfig}
+        maxRetries={10}
+        heartbeat={
+          process.env.NEXT_PUBLIC_FX_HEARTBEAT_INTERVAL
+            ? { interval: Number(process.env.NEXT_PUBLIC_FX_HEARTBEAT_INTERVAL) }
+            : undefined
+        }
+        inputMode={
+          process.env.NEXT_PUBLIC_FX_INPUT_MODE === "pushToTalk"
+            ? "pushToTalk"
+            : "open"
+        }
+        duplexMode={
+          process.env.NEXT_PUBLIC_FX_DUPLEX_MODE === "half" ||
+          process.env.NEXT_PUBLIC_FX_DUPLEX_MODE === "auto"
+            ? process.env.NEXT_PUBLIC_FX_DUPLEX_MODE
+            : "full"
+        }
+        auth={
+          process.env.NEXT_PUBLIC_FX_USE_ACCESS_TOKEN === "true"
+            ? fetchAccessToken
+            : undefined
+        }
         onMessage={() => {
           if (timeout.current) {
             window.clearTimeout(timeout.current);
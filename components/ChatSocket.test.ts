@@ -0,0 +1,425 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { ChatSocket, type ConnectionState } from './ChatSocket';
+import { ReconnectingWebSocket } from './WebSocket';
+import {
+  SocketRetriesExhaustedError,
+  SocketUnknownMessageError,
+} from './errors';
+import type { CapturedAudioInfo } from './audio-frame';
+
+/**
+ * Stands in for a `ReconnectingWebSocket`, with methods to drive it from the
+ * test.
+ */
+class FakeSocket {
+  readyState = ReconnectingWebSocket.CONNECTING;
+  bufferedAmount = 0;
+  roundTripTime: number | undefined = undefined;
+  retryCount = 0;
+  sent: unknown[] = [];
+
+  private listeners = new Map<string, Set<(event: any) => void>>();
+
+  addEventListener(type: string, listener: (event: any) => void) {
+    if (!this.listeners.has(type)) {
+      this.listeners.set(type, new Set());
+    }
+    this.listeners.get(type)!.add(listener);
+  }
+
+  removeEventListener(type: string, listener: (event: any) => void) {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  send(data: unknown) {
+    this.sent.push(data);
+  }
+
+  reconnect() {
+    this.readyState = ReconnectingWebSocket.CONNECTING;
+  }
+
+  close() {
+    this.readyState = ReconnectingWebSocket.CLOSED;
+  }
+
+  open() {
+    this.readyState = ReconnectingWebSocket.OPEN;
+    this.emit('open', {});
+  }
+
+  drop() {
+    this.readyState = ReconnectingWebSocket.CLOSED;
+    this.retryCount++;
+    this.emit('close', { code: 1006 });
+  }
+
+  fail(message: string) {
+    this.emit('error', { message });
+  }
+
+  receive(data: string) {
+    this.emit('message', { data });
+  }
+
+  private emit(type: string, event: unknown) {
+    this.listeners.get(type)?.forEach((listener) => listener(event));
+  }
+}
+
+const asSocket = (socket: FakeSocket) =>
+  socket as unknown as ReconnectingWebSocket;
+
+const INFO: CapturedAudioInfo = {
+  encoding: 'linear16',
+  capturedAt: 0,
+  sampleRate: 16000,
+  channels: 1,
+};
+
+const frame = (value: number) => new Uint8Array([value, value]).buffer;
+
+const audioSent = (socket: FakeSocket) =>
+  socket.sent
+    .filter((data): data is ArrayBuffer => data instanceof ArrayBuffer)
+    .map((data) => new Uint8Array(data)[0]);
+
+/** Audio frames by their first byte, and messages by their type. */
+const sentInOrder = (socket: FakeSocket) =>
+  socket.sent.map((data) =>
+    data instanceof ArrayBuffer
+      ? new Uint8Array(data)[0]
+      : (JSON.parse(data as string) as { type: string }).type,
+  );
+
+const createPair = () => {
+  const sendSocket = new FakeSocket();
+  const recvSocket = new FakeSocket();
+  const chat = new ChatSocket({
+    sendSocket: asSocket(sendSocket),
+    recvSocket: asSocket(recvSocket),
+  });
+  const states: ConnectionState[] = [];
+  const handlers = {
+    open: vi.fn(),
+    reconnect: vi.fn(),
+    reconnecting: vi.fn(),
+    error: vi.fn(),
+  };
+  chat.on('stateChange', (state) => states.push(state));
+  chat.on('open', handlers.open);
+  chat.on('reconnect', handlers.reconnect);
+  chat.on('reconnecting', handlers.reconnecting);
+  chat.on('error', handlers.error);
+  return { sendSocket, recvSocket, chat, states, handlers };
+};
+
+describe('ChatSocket', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('opens once both sockets are open', () => {
+    const { sendSocket, recvSocket, chat, states, handlers } = createPair();
+
+    sendSocket.open();
+    expect(chat.connectionState).toBe('connecting');
+    expect(handlers.open).not.toHaveBeenCalled();
+
+    recvSocket.open();
+    expect(chat.connectionState).toBe('open');
+    expect(states).toEqual(['open']);
+    expect(handlers.open).toHaveBeenCalledTimes(1);
+  });
+
+  it('holds audio back until the connection is open', () => {
+    const { sendSocket, recvSocket, chat } = createPair();
+
+    chat.sendAudio(frame(1), INFO);
+    sendSocket.open();
+    expect(audioSent(sendSocket)).toEqual([]);
+
+    recvSocket.open();
+    expect(audioSent(sendSocket)).toEqual([1]);
+  });
+
+  it('is degraded and holds audio back while one socket is down', () => {
+    const { sendSocket, recvSocket, chat, states, handlers } = createPair();
+    sendSocket.open();
+    recvSocket.open();
+
+    recvSocket.drop();
+    expect(chat.connectionState).toBe('degraded');
+    expect(states).toEqual(['open', 'degraded']);
+    expect(handlers.reconnecting).toHaveBeenCalledWith(1);
+
+    chat.sendAudio(frame(1), INFO);
+    expect(audioSent(sendSocket)).toEqual([]);
+  });
+
+  it('is reconnecting while both sockets are down', () => {
+    const { sendSocket, recvSocket, chat, states } = createPair();
+    sendSocket.open();
+    recvSocket.open();
+
+    sendSocket.drop();
+    recvSocket.drop();
+    expect(chat.connectionState).toBe('reconnecting');
+    expect(states).toEqual(['open', 'degraded', 'reconnecting']);
+  });
+
+  it('reports the reconnect and flushes buffered audio in order on recovery', () => {
+    const { sendSocket, recvSocket, chat, states, handlers } = createPair();
+    sendSocket.open();
+    recvSocket.open();
+    sendSocket.drop();
+    recvSocket.drop();
+
+    chat.sendAudio(frame(1), INFO);
+    chat.sendAudio(frame(2), INFO);
+    sendSocket.open();
+    expect(audioSent(sendSocket)).toEqual([]);
+
+    recvSocket.open();
+    expect(chat.connectionState).toBe('open');
+    expect(states).toEqual(['open', 'degraded', 'reconnecting', 'degraded', 'open']);
+    expect(handlers.open).toHaveBeenCalledTimes(1);
+    expect(handlers.reconnect).toHaveBeenCalledTimes(1);
+    expect(audioSent(sendSocket)).toEqual([1, 2]);
+  });
+
+  it('lets the reconnect handlers send session settings before buffered audio', () => {
+    const { sendSocket, recvSocket, chat } = createPair();
+    chat.on('reconnect', () => {
+      chat.sendSessionSettings({});
+    });
+    sendSocket.open();
+    recvSocket.open();
+    sendSocket.drop();
+
+    chat.sendAudio(frame(1), INFO);
+    chat.sendEndOfUtterance({});
+    sendSocket.open();
+
+    expect(sentInOrder(sendSocket)).toEqual([
+      'session_settings',
+      1,
+      'end_of_utterance',
+    ]);
+  });
+
+  it('drops the oldest audio once the buffer is full', () => {
+    const sendSocket = new FakeSocket();
+    const recvSocket = new FakeSocket();
+    const chat = new ChatSocket({
+      sendSocket: asSocket(sendSocket),
+      recvSocket: asSocket(recvSocket),
+      audioBufferPolicy: { maxBufferedFrames: 2 },
+    });
+    const audioDropped = vi.fn();
+    chat.on('audioDropped', audioDropped);
+
+    chat.sendAudio(frame(1), INFO);
+    chat.sendAudio(frame(2), INFO);
+    chat.sendAudio(frame(3), INFO);
+    sendSocket.open();
+    recvSocket.open();
+
+    expect(audioSent(sendSocket)).toEqual([2, 3]);
+    expect(audioDropped).toHaveBeenCalledWith(1);
+    expect(chat.droppedAudioFrameCount).toBe(1);
+  });
+
+  it('holds audio back while the send socket is congested', () => {
+    const { sendSocket, recvSocket, chat } = createPair();
+    sendSocket.open();
+    recvSocket.open();
+
+    sendSocket.bufferedAmount = 1024 * 1024;
+    chat.sendAudio(frame(1), INFO);
+    expect(audioSent(sendSocket)).toEqual([]);
+
+    sendSocket.bufferedAmount = 0;
+    vi.advanceTimersByTime(50);
+    expect(audioSent(sendSocket)).toEqual([1]);
+  });
+
+  it('sends the end of an utterance right after its last frame', () => {
+    const { sendSocket, recvSocket, chat } = createPair();
+    sendSocket.open();
+    recvSocket.open();
+
+    chat.sendAudio(frame(1), INFO);
+    chat.sendEndOfUtterance({});
+    expect(sentInOrder(sendSocket)).toEqual([1, 'end_of_utterance']);
+  });
+
+  it('keeps each end of utterance between its audio and the next', () => {
+    const { sendSocket, recvSocket, chat } = createPair();
+    sendSocket.open();
+    recvSocket.open();
+    sendSocket.drop();
+
+    // two presses while the connection is down
+    chat.sendAudio(frame(1), INFO);
+    chat.sendEndOfUtterance({});
+    chat.sendAudio(frame(2), INFO);
+    chat.sendAudio(frame(3), INFO);
+    chat.sendEndOfUtterance({});
+    chat.sendAudio(frame(4), INFO);
+    sendSocket.open();
+
+    expect(sentInOrder(sendSocket)).toEqual([
+      1,
+      'end_of_utterance',
+      2,
+      3,
+      'end_of_utterance',
+      4,
+    ]);
+  });
+
+  it('holds the end of an utterance behind audio held back by congestion', () => {
+    const { sendSocket, recvSocket, chat } = createPair();
+    sendSocket.open();
+    recvSocket.open();
+
+    sendSocket.bufferedAmount = 1024 * 1024;
+    chat.sendAudio(frame(1), INFO);
+    chat.sendEndOfUtterance({});
+    chat.sendAudio(frame(2), INFO);
+    expect(sentInOrder(sendSocket)).toEqual([]);
+
+    sendSocket.bufferedAmount = 0;
+    vi.advanceTimersByTime(50);
+    expect(sentInOrder(sendSocket)).toEqual([1, 'end_of_utterance', 2]);
+  });
+
+  it('keeps the end of an utterance whose audio was dropped', () => {
+    const sendSocket = new FakeSocket();
+    const recvSocket = new FakeSocket();
+    const chat = new ChatSocket({
+      sendSocket: asSocket(sendSocket),
+      recvSocket: asSocket(recvSocket),
+      audioBufferPolicy: { maxBufferedFrames: 2 },
+    });
+
+    chat.sendAudio(frame(1), INFO);
+    chat.sendEndOfUtterance({});
+    chat.sendAudio(frame(2), INFO);
+    chat.sendAudio(frame(3), INFO);
+    sendSocket.open();
+    recvSocket.open();
+
+    expect(sentInOrder(sendSocket)).toEqual(['end_of_utterance', 2, 3]);
+    expect(chat.droppedAudioFrameCount).toBe(1);
+  });
+
+  it('sends a user interruption only while the send socket is open', () => {
+    const { sendSocket, recvSocket, chat } = createPair();
+
+    expect(() => chat.sendUserInterruption({ time: 1 })).not.toThrow();
+    sendSocket.open();
+    recvSocket.open();
+    chat.sendUserInterruption({ time: 2 });
+
+    expect(sendSocket.sent).toEqual([
+      JSON.stringify({ type: 'user_interruption', time: 2 }),
+    ]);
+  });
+
+  it('retries failed attempts at the initial connection', () => {
+    const { sendSocket, recvSocket, chat, handlers } = createPair();
+
+    sendSocket.fail('connection refused');
+    sendSocket.drop();
+    expect(handlers.error).not.toHaveBeenCalled();
+    expect(handlers.reconnecting).not.toHaveBeenCalled();
+    expect(chat.connectionState).toBe('connecting');
+
+    sendSocket.open();
+    recvSocket.open();
+    expect(handlers.open).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports running out of retries at the initial connection', () => {
+    const { sendSocket, handlers } = createPair();
+
+    sendSocket.fail('connection refused');
+    sendSocket.fail('MAX_RETRIES');
+    expect(handlers.error).toHaveBeenCalledTimes(1);
+    expect(handlers.error.mock.calls[0]![0]).toBeInstanceOf(
+      SocketRetriesExhaustedError,
+    );
+  });
+
+  it('drops unparseable frames without reporting an error', () => {
+    const { sendSocket, recvSocket, chat, handlers } = createPair();
+    const message = vi.fn();
+    const parseError = vi.fn();
+    chat.on('message', message);
+    chat.on('parseError', parseError);
+    sendSocket.open();
+    recvSocket.open();
+
+    recvSocket.receive(JSON.stringify({ type: 'not_a_message' }));
+    recvSocket.receive(JSON.stringify({ type: 'user_interruption', time: 1 }));
+
+    expect(parseError).toHaveBeenCalledTimes(1);
+    expect(parseError.mock.calls[0]![0]).toBeInstanceOf(
+      SocketUnknownMessageError,
+    );
+    expect(handlers.error).not.toHaveBeenCalled();
+    expect(message).toHaveBeenCalledTimes(1);
+    expect(chat.connectionState).toBe('open');
+  });
+
+  describe('duplex', () => {
+    const createDuplex = () => {
+      const socket = new FakeSocket();
+      const chat = new ChatSocket({ socket: asSocket(socket) });
+      const states: ConnectionState[] = [];
+      const reconnect = vi.fn();
+      chat.on('stateChange', (state) => states.push(state));
+      chat.on('reconnect', reconnect);
+      return { socket, chat, states, reconnect };
+    };
+
+    it('uses one socket for both directions', () => {
+      const { socket, chat } = createDuplex();
+      const message = vi.fn();
+      chat.on('message', message);
+
+      expect(chat.isDuplex).toBe(true);
+      expect(chat.sockets).toHaveLength(1);
+
+      socket.open();
+      expect(chat.connectionState).toBe('open');
+
+      chat.sendAudio(frame(1), INFO);
+      expect(audioSent(socket)).toEqual([1]);
+
+      socket.receive(JSON.stringify({ type: 'user_interruption', time: 1 }));
+      expect(message).toHaveBeenCalledTimes(1);
+    });
+
+    it('goes straight to reconnecting when its socket drops', () => {
+      const { socket, chat, states, reconnect } = createDuplex();
+      socket.open();
+
+      socket.drop();
+      expect(chat.connectionState).toBe('reconnecting');
+
+      chat.sendAudio(frame(1), INFO);
+      socket.open();
+      expect(states).toEqual(['open', 'reconnecting', 'open']);
+      expect(reconnect).toHaveBeenCalledTimes(1);
+      expect(audioSent(socket)).toEqual([1]);
+    });
+  });
+});
@@ -1,12 +1,19 @@
 "use client";
 
-import { AudioInput, AudioOutput, AssistantInput, SessionSettings, PauseAssistantMessage, ResumeAssistantMessage } from './types';
+import { AudioInput, AssistantInput, SessionSettings, PauseAssistantMessage, ResumeAssistantMessage, EndOfUtterance, UserInterruption } from './types';
 import { CloseEvent, ErrorEvent } from './events';
 import { ReconnectingWebSocket } from './WebSocket';
+import { type InboundMessage, parseInboundMessage } from './inbound-message';
+import {
+  SocketFailedToParseMessageError,
+  SocketRetriesExhaustedError,
+  SocketUnknownMessageError,
+} from './errors';
+import { type CapturedAudioInfo, encodeAudioFrame } from './audio-frame';
 
 
 export type PublishEvent = SessionSettings
-export type SubscribeEvent = AudioOutput
+export type SubscribeEvent = InboundMessage
 
 
 export class CustomError extends Error {
@@ -61,18 +68,100 @@ function buildMessage({
 
 
 
+/**
+ * Combined state of the underlying sockets.
+ * - `connecting`: not every socket has opened yet since `connect`.
+ * - `open`: every socket is open.
+ * - `degraded`: some, but not all, sockets dropped after the connection was open.
+ * - `reconnecting`: every socket dropped after the connection was open.
+ * - `closed`: the connection was closed by the client.
+ */
+export type ConnectionState =
+  | 'connecting'
+  | 'open'
+  | 'degraded'
+  | 'reconnecting'
+  | 'closed';
+
+/**
+ * How microphone audio is held back when it cannot be sent right away.
+ */
+export type AudioBufferPolicy = {
+  /**
+   * @default 16
+   * @description Maximum number of audio frames held while the connection is
+   * not open or is congested. Once full, the oldest frames are dropped.
+   */
+  maxBufferedFrames?: number;
+  /**
+   * @default 65536
+   * @description Send socket `bufferedAmount`, in bytes, above which audio
+   * frames are held back instead of sent.
+   */
+  maxBufferedAmount?: number;
+};
+
+const DEFAULT_AUDIO_BUFFER_POLICY: Required<AudioBufferPolicy> = {
+  maxBufferedFrames: 16,
+  maxBufferedAmount: 64 * 1024,
+};
+
+// how soon to retry sending audio that was held back by `maxBufferedAmount`
+const AUDIO_FLUSH_RETRY_MS = 50;
+
+/** Audio, and the markers between utterances, in the order they were sent. */
+type OutboundAudio =
+  | { type: 'frame'; data: ArrayBuffer }
+  | { type: 'end_of_utterance'; message: EndOfUtterance };
+
 export declare namespace ChatSocket {
-  interface Args {
+  /** Audio and messages are sent on one socket and responses received on another. */
+  interface PairArgs {
     sendSocket: ReconnectingWebSocket;
     recvSocket: ReconnectingWebSocket;
   }
 
+  /** A single bidirectional socket carries both directions. */
+  interface DuplexArgs {
+    socket: ReconnectingWebSocket;
+  }
+
+  type Args = (PairArgs | DuplexArgs) & {
+    audioBufferPolicy?: AudioBufferPolicy;
+    /**
+     * Send audio as frames with a header (see `audio-frame.ts`) instead of
+     * raw samples. The server must support the framing.
+     */
+    framedAudio?: boolean;
+  };
+
   type Response = SubscribeEvent & { receivedAt: Date };
 
   type EventHandlers = {
+    /** Called the first time every socket is open. */
     open?: () => void;
+    stateChange?: (state: ConnectionState) => void;
+    /** Called each time a dropped socket schedules another connection attempt. */
+    reconnecting?: (attempt: number) => void;
+    /** Called when every socket is open again after a drop. */
+    reconnect?: () => void;
+    /** Called with the total number of audio frames dropped since `connect`. */
+    audioDropped?: (droppedFrames: number) => void;
+    /** Called with the combined heartbeat round trip time, in milliseconds. */
+    roundTripTime?: (roundTripTime: number) => void;
     message?: (message: Response) => void;
+    /**
+     * Called with a frame that could not be parsed or has an unknown type.
+     * The frame is dropped and the connection carries on.
+     */
+    parseError?: (
+      error: SocketFailedToParseMessageError | SocketUnknownMessageError,
+    ) => void;
     close?: (event: CloseEvent) => void;
+    /**
+     * Failed connection attempts are retried rather than reported, so while
+     * connecting this is only called with `SocketRetriesExhaustedError`.
+     */
     error?: (error: Error) => void;
   };
 }
@@ -82,33 +171,93 @@ export class ChatSocket {
   public readonly recvSocket: ReconnectingWebSocket;
   public readonly sendReadyState: number;
   public readonly recvReadyState: number;
+  public readonly isDuplex: boolean;
 
   protected readonly sendEventHandlers: ChatSocket.EventHandlers = {};
   protected readonly recvEventHandlers: ChatSocket.EventHandlers = {};
 
   private idCount: number;
 
-  constructor({ sendSocket, recvSocket }: ChatSocket.Args) {
-    this.sendSocket = sendSocket;
-    this.recvSocket = recvSocket;
-    this.sendReadyState = sendSocket.readyState;
-    this.recvReadyState = recvSocket.readyState;
+  private isSendOpen = false;
+  private isRecvOpen = false;
+  private hasOpened = false;
+  private isClosed = false;
+  private state: ConnectionState = 'connecting';
+
+  private readonly maxBufferedAmount: number;
+  private readonly maxBufferedFrames: number;
+  private outboundAudio: OutboundAudio[] = [];
+  private bufferedFrameCount = 0;
+  private droppedAudioFrames = 0;
+  private readonly framedAudio: boolean;
+  private audioSequence = 0;
+  private flushTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(args: ChatSocket.Args) {
+    if ('socket' in args) {
+      this.sendSocket = args.socket;
+      this.recvSocket = args.socket;
+      this.isDuplex = true;
+    } else {
+      this.sendSocket = args.sendSocket;
+      this.recvSocket = args.recvSocket;
+      this.isDuplex = false;
+    }
+    this.sendReadyState = this.sendSocket.readyState;
+    this.recvReadyState = this.recvSocket.readyState;
+
+    const policy = { ...DEFAULT_AUDIO_BUFFER_POLICY, ...args.audioBufferPolicy };
+    this.maxBufferedAmount = policy.maxBufferedAmount;
+    if (
+      !Number.isInteger(policy.maxBufferedFrames) ||
+      policy.maxBufferedFrames < 1
+    ) {
+      throw new Error(
+        `Invalid maxBufferedFrames: ${policy.maxBufferedFrames}`,
+      );
+    }
+    this.maxBufferedFrames = policy.maxBufferedFrames;
+    this.framedAudio = args.framedAudio ?? false;
 
-    this.sendSocket.addEventListener('open', this.handleSendOpen);
-    this.sendSocket.addEventListener('close', this.handleSendClose);
-    this.sendSocket.addEventListener('error', this.handleSendError);
-    this.recvSocket.addEventListener('open', this.handleRecvOpen);
-    this.recvSocket.addEventListener('message', this.handleRecvMessage);
-    this.recvSocket.addEventListener('close', this.handleRecvClose);
-    this.recvSocket.addEventListener('error', this.handleRecvError);
+    this.addSocketListeners();
     this.idCount = 1
   }
 
+  /**
+   * The distinct underlying sockets; a single socket in duplex mode.
+   */
+  public get sockets(): ReconnectingWebSocket[] {
+    return this.isDuplex ? [this.sendSocket] : [this.sendSocket, this.recvSocket];
+  }
+
+  public get connectionState(): ConnectionState {
+    return this.state;
+  }
+
+  /**
+   * The slowest smoothed heartbeat round trip time among the underlying
+   * sockets, or undefined until every socket has measured one.
+   */
+  public get roundTripTime(): number | undefined {
+    const times = this.sockets.map((socket) => socket.roundTripTime);
+    if (times.some((time) => time === undefined)) {
+      return undefined;
+    }
+    return Math.max(...(times as number[]));
+  }
+
+  /**
+   * The highest retry count among the underlying sockets.
+   */
+  public get retryCount(): number {
+    return Math.max(...this.sockets.map((socket) => socket.retryCount));
+  }
+
   on<T extends keyof ChatSocket.EventHandlers>(
     event: T,
     callback: ChatSocket.EventHandlers[T],
   ) {
-    if (event === 'message') {
+    if (event === 'message' || event === 'parseError') {
       this.recvEventHandlers[event] = callback;
     } else if (event === 'error') {
       this.sendEventHandlers[event] = callback;
@@ -131,6 +280,49 @@ export class ChatSocket {
     });
   }
 
+  /**
+   * The number of audio frames dropped since `connect`.
+   */
+  public get droppedAudioFrameCount(): number {
+    return this.droppedAudioFrames;
+  }
+
+  /**
+   * Send raw audio on the send socket. Frames are only sent while the
+   * connection is fully open, so that audio is never streamed into a session
+   * whose responses cannot be received, and while the socket is not
+   * congested. Otherwise they are held in a bounded buffer that drops the
+   * oldest frames, so a reconnect never flushes stale audio.
+   *
+   * With framed audio, each frame is numbered when it is captured, so frames
+   * dropped here show up as gaps in the sequence on the server.
+   */
+  public sendAudio(
+    data: ArrayBufferLike | ArrayBufferView,
+    info: CapturedAudioInfo,
+  ): void {
+    // copy, since capture buffers may be reused once this returns
+    const frame = this.framedAudio
+      ? encodeAudioFrame({ ...info, sequence: this.audioSequence++ }, data)
+      : ArrayBuffer.isView(data)
+        ? data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength)
+        : data.slice(0);
+
+    this.outboundAudio.push({ type: 'frame', data: frame as ArrayBuffer });
+    this.bufferedFrameCount++;
+    if (this.bufferedFrameCount > this.maxBufferedFrames) {
+      // markers stay, so the utterance a dropped frame belonged to still ends
+      const oldest = this.outboundAudio.findIndex(
+        (item) => item.type === 'frame',
+      );
+      this.outboundAudio.splice(oldest, 1);
+      this.bufferedFrameCount--;
+      this.droppedAudioFrames++;
+      this.sendEventHandlers.audioDropped?.(this.droppedAudioFrames);
+    }
+    this.flushAudio();
+  }
+
   /**
    * Send session settings
    */
@@ -183,6 +375,34 @@ export class ChatSocket {
     });
   }
 
+  /**
+   * Mark the end of the user's utterance. The marker is queued behind the
+   * utterance's audio, so it is sent right after its last frame, including
+   * when that audio is held back while the connection is being restored.
+   */
+  public sendEndOfUtterance(message: Omit<EndOfUtterance, 'type'>): void {
+    this.outboundAudio.push({
+      type: 'end_of_utterance',
+      message: { type: 'end_of_utterance', ...message },
+    });
+    this.flushAudio();
+  }
+
+  /**
+   * Tell the server that the user talked over the assistant, so that it can
+   * stop generating the rest of the response. Nothing is sent while the send
+   * socket is not open, as the response it would stop is not being received.
+   */
+  public sendUserInterruption(message: Omit<UserInterruption, 'type'>): void {
+    if (this.sendSocket.readyState !== ReconnectingWebSocket.OPEN) {
+      return;
+    }
+    this.sendJson({
+      type: 'user_interruption',
+      ...message,
+    });
+  }
+
   /**
    * Send text input
    */
@@ -200,35 +420,35 @@ export class ChatSocket {
    * Connect to the ReconnectingWebSocket.
    */
   public connect(): ChatSocket {
-    this.sendSocket.reconnect();
-    this.recvSocket.reconnect();
-
-    this.sendSocket.addEventListener('open', this.handleSendOpen);
-    this.sendSocket.addEventListener('close', this.handleSendClose);
-    this.sendSocket.addEventListener('error', this.handleSendError);
-    this.recvSocket.addEventListener('open', this.handleRecvOpen);
-    this.recvSocket.addEventListener('message', this.handleRecvMessage);
-    this.recvSocket.addEventListener('close', this.handleRecvClose);
-    this.recvSocket.addEventListener('error', this.handleRecvError);
+    this.isSendOpen = false;
+    this.isRecvOpen = false;
+    this.hasOpened = false;
+    this.isClosed = false;
+    this.state = 'connecting';
+    this.clearAudio();
+    this.droppedAudioFrames = 0;
+    this.audioSequence = 0;
+    this.sockets.forEach((socket) => socket.reconnect());
+
+    this.removeSocketListeners();
+    this.addSocketListeners();
     return this;
   }
 
   /**
-   * Closes the underlying socket.
+   * Closes the underlying sockets.
    */
   public close(): void {
-    this.sendSocket.close();
-    this.recvSocket.close();
+    this.sockets.forEach((socket) => socket.close());
 
-    this.handleSendClose({ code: 1000 } as CloseEvent);
+    this.isClosed = true;
+    this.isSendOpen = false;
+    this.isRecvOpen = false;
+    this.clearAudio();
+    this.updateConnectionState();
+    this.sendEventHandlers.close?.({ code: 1000 } as CloseEvent);
 
-    this.sendSocket.removeEventListener('open', this.handleSendOpen);
-    this.sendSocket.removeEventListener('close', this.handleSendClose);
-    this.sendSocket.removeEventListener('error', this.handleSendError);
-    this.recvSocket.removeEventListener('open', this.handleRecvOpen);
-    this.recvSocket.removeEventListener('message', this.handleRecvMessage);
-    this.recvSocket.removeEventListener('close', this.handleRecvClose);
-    this.recvSocket.removeEventListener('error', this.handleRecvError);
+    this.removeSocketListeners();
   }
 
   public async tillSocketOpen(): Promise<ReconnectingWebSocket> {
@@ -246,6 +466,34 @@ export class ChatSocket {
     });
   }
 
+  private addSocketListeners(): void {
+    this.sendSocket.addEventListener('open', this.handleSendOpen);
+    this.sendSocket.addEventListener('close', this.handleSendClose);
+    this.sendSocket.addEventListener('error', this.handleSendError);
+    this.recvSocket.addEventListener('message', this.handleRecvMessage);
+    this.sockets.forEach((socket) =>
+      socket.addEventListener('pong', this.handlePong),
+    );
+    if (!this.isDuplex) {
+      this.recvSocket.addEventListener('open', this.handleRecvOpen);
+      this.recvSocket.addEventListener('close', this.handleRecvClose);
+      this.recvSocket.addEventListener('error', this.handleRecvError);
+    }
+  }
+
+  private removeSocketListeners(): void {
+    this.sendSocket.removeEventListener('open', this.handleSendOpen);
+    this.sendSocket.removeEventListener('close', this.handleSendClose);
+    this.sendSocket.removeEventListener('error', this.handleSendError);
+    this.recvSocket.removeEventListener('message', this.handleRecvMessage);
+    this.sockets.forEach((socket) =>
+      socket.removeEventListener('pong', this.handlePong),
+    );
+    this.recvSocket.removeEventListener('open', this.handleRecvOpen);
+    this.recvSocket.removeEventListener('close', this.handleRecvClose);
+    this.recvSocket.removeEventListener('error', this.handleRecvError);
+  }
+
   private assertSocketIsOpen(): void {
     if (!this.sendSocket) {
       throw new CustomError({ message: 'Socket is not connected.' });
@@ -256,60 +504,172 @@ export class ChatSocket {
     }
   }
 
+  private flushAudio(): void {
+    if (this.flushTimeout !== null) {
+      clearTimeout(this.flushTimeout);
+      this.flushTimeout = null;
+    }
+    if (this.state !== 'open') {
+      return;
+    }
+
+    while (this.outboundAudio.length > 0) {
+      const next = this.outboundAudio[0]!;
+      if (next.type === 'end_of_utterance') {
+        this.sendJson(next.message);
+      } else if (this.sendSocket.bufferedAmount <= this.maxBufferedAmount) {
+        this.sendSocket.send(next.data);
+        this.bufferedFrameCount--;
+      } else {
+        break;
+      }
+      this.outboundAudio.shift();
+    }
+
+    if (this.outboundAudio.length > 0) {
+      // nothing may be captured after the last frame to trigger another flush
+      this.flushTimeout = setTimeout(() => this.flushAudio(), AUDIO_FLUSH_RETRY_MS);
+    }
+  }
+
+  private clearAudio(): void {
+    this.outboundAudio = [];
+    this.bufferedFrameCount = 0;
+    if (this.flushTimeout !== null) {
+      clearTimeout(this.flushTimeout);
+      this.flushTimeout = null;
+    }
+  }
+
   private sendJson(payload: any): void {
     this.sendSocket.send(JSON.stringify(payload));
   }
 
+  private updateConnectionState(): void {
+    let next: ConnectionState;
+    if (this.isClosed) {
+      next = 'closed';
+    } else if (this.isSendOpen && this.isRecvOpen) {
+      next = 'open';
+    } else if (!this.hasOpened) {
+      next = 'connecting';
+    } else {
+      next = this.isSendOpen || this.isRecvOpen ? 'degraded' : 'reconnecting';
+    }
+
+    if (next === this.state) {
+      return;
+    }
+    this.state = next;
+
+    const isFirstOpen = next === 'open' && !this.hasOpened;
+    if (next === 'open') {
+      this.hasOpened = true;
+    }
+
+    this.sendEventHandlers.stateChange?.(next);
+    if (isFirstOpen) {
+      this.sendEventHandlers.open?.();
+    } else if (next === 'open') {
+      this.sendEventHandlers.reconnect?.();
+    }
+    // after the handlers, so that the session settings they send declare the
+    // audio format before any buffered audio reaches the new connection
+    this.flushAudio();
+  }
+
+  /**
+   * Whether a socket event belongs to an automatic reconnection rather than
+   * the initial connection.
+   */
+  private get isRetrying(): boolean {
+    return this.hasOpened && !this.isClosed;
+  }
+
+  private notifyReconnecting(): void {
+    if (this.isRetrying) {
+      this.sendEventHandlers.reconnecting?.(this.retryCount);
+    }
+  }
+
   private handleSendOpen = () => {
-    this.sendEventHandlers.open?.();
+    this.isSendOpen = true;
+    if (this.isDuplex) {
+      this.isRecvOpen = true;
+    }
+    this.updateConnectionState();
   };
 
   private handleRecvOpen = () => {
-    this.recvEventHandlers.open?.();
+    this.isRecvOpen = true;
+    this.updateConnectionState();
   };
 
-  private handleRecvMessage = (event: { data: string }): void => {
-    const jsonData = JSON.parse(event.data);
-    const audioBase64 = jsonData.answer_audio;
-    const audioBytes = Uint8Array.from(atob(audioBase64), c => c.charCodeAt(0));
-    const dataView = new DataView(audioBytes.buffer);
-    const audioInt16 = new Int16Array(audioBytes.length / 2);
-    
-    for (let i = 0; i < audioInt16.length; i++) {
-        audioInt16[i] = dataView.getInt16(i * 2, true);
+  private handleRecvMessage = (event: { data: unknown }): void => {
+    let message: SubscribeEvent;
+    try {
+      message = parseInboundMessage(event.data, () => String(this.idCount++));
+    } catch (e) {
+      // one bad frame is dropped rather than ending the call
+      this.recvEventHandlers.parseError?.(
+        e instanceof SocketUnknownMessageError ||
+          e instanceof SocketFailedToParseMessageError
+          ? e
+          : new SocketFailedToParseMessageError(
+              e instanceof Error ? e.message : undefined,
+            ),
+      );
+      return;
     }
 
-    if (true) {
-      const audioOutputObject: AudioOutput = {
-        type: 'audio_output',
-        id: String(this.idCount),
-        data: audioInt16,
-        question: jsonData.question_text,
-        answer: jsonData.answer_text,
-      };
-      // @ts-ignore
-      this.recvEventHandlers.message?.(audioOutputObject);
-      this.idCount++;
-    } else {
-      this.recvEventHandlers.error?.(new Error(`Received unknown message type`));
+    this.recvEventHandlers.message?.({ ...message, receivedAt: new Date() });
+  };
+
+  private handlePong = () => {
+    const roundTripTime = this.roundTripTime;
+    if (roundTripTime !== undefined) {
+      this.sendEventHandlers.roundTripTime?.(roundTripTime);
     }
   };
 
-  private handleSendClose = (event: CloseEvent) => {
-    this.sendEventHandlers.close?.(event);
+  private handleSendClose = () => {
+    this.isSendOpen = false;
+    if (this.isDuplex) {
+      this.isRecvOpen = false;
+    }
+    this.updateConnectionState();
+    this.notifyReconnecting();
   };
 
-  private handleRecvClose = (event: CloseEvent) => {
-    this.recvEventHandlers.close?.(event);
+  private handleRecvClose = () => {
+    this.isRecvOpen = false;
+    this.updateConnectionState();
+    this.notifyReconnecting();
   };
 
+  private toError(event: ErrorEvent): Error | null {
+    if (event.message === 'MAX_RETRIES') {
+      return new SocketRetriesExhaustedError();
+    }
+    // a failed attempt, including one of the initial connection, is expected;
+    // the socket closes and tries again until `maxRetries` runs out
+    if (!this.isClosed) {
+      return null;
+    }
+    return new Error(event.message ?? 'ReconnectingWebSocket error');
+  }
+
   private handleSendError = (event: ErrorEvent) => {
-    const message = event.message ?? 'ReconnectingWebSocket error';
-    this.sendEventHandlers.error?.(new Error(message));
+    const error = this.toError(event);
+    if (error) {
+      this.sendEventHandlers.error?.(error);
+    }
   };
 
   private handleRecvError = (event: ErrorEvent) => {
-    const message = event.message ?? 'ReconnectingWebSocket error';
-    this.recvEventHandlers.error?.(new Error(message));
+    const error = this.toError(event);
+    if (error) {
+      this.recvEventHandlers.error?.(error);
+    }
   };
 }
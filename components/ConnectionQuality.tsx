@@ -0,0 +1,36 @@
+"use client";
+
+import { Signal, SignalLow, SignalMedium } from "lucide-react";
+import { cn } from "@/utils";
+
+// round trip times, in milliseconds, above which quality is considered worse
+const FAIR_ROUND_TRIP_TIME = 150;
+const POOR_ROUND_TRIP_TIME = 400;
+
+export default function ConnectionQuality({
+  roundTripTime,
+  className,
+}: {
+  roundTripTime: number;
+  className?: string;
+}) {
+  const Icon =
+    roundTripTime > POOR_ROUND_TRIP_TIME
+      ? SignalLow
+      : roundTripTime > FAIR_ROUND_TRIP_TIME
+        ? SignalMedium
+        : Signal;
+
+  return (
+    <div
+      className={cn(
+        "flex items-center gap-1 text-xs text-muted-foreground",
+        className,
+      )}
+      title={`延迟 ${roundTripTime} ms`}
+    >
+      <Icon className={"size-4"} />
+      <span className={"tabular-nums"}>{roundTripTime} ms</span>
+    </div>
+  );
+}
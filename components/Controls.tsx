@@ -1,16 +1,40 @@
 "use client";
 
-
+import { useState } from "react";
 import { useVoice } from "./VoiceProvider";
 import { Button } from "./ui/button";
 import { Mic, MicOff, Phone } from "lucide-react";
 import { AnimatePresence, motion } from "framer-motion";
 import { Toggle } from "./ui/toggle";
 import MicFFT from "./MicFFT";
+import ConnectionQuality from "./ConnectionQuality";
+import PushToTalkButton from "./PushToTalkButton";
+import DeviceSelect from "./DeviceSelect";
 import { cn } from "@/utils";
+import { VoiceReadyState } from "./useVoiceClient";
 
 export default function Controls() {
-  const { disconnect, status, isMuted, unmute, mute, micFft } = useVoice();
+  const {
+    disconnect,
+    status,
+    readyState,
+    roundTripTime,
+    isMuted,
+    unmute,
+    mute,
+    micFft,
+    inputMode,
+    isEchoDetected,
+    inputDevices,
+    selectedInputDeviceId,
+    selectInputDevice,
+    outputDevices,
+    selectedOutputDeviceId,
+    selectOutputDevice,
+  } = useVoice();
+  const [deviceError, setDeviceError] = useState<string | null>(null);
+  const isInCall =
+    status.value === "connected" || status.value === "reconnecting";
 
   return (
     <div
@@ -22,7 +46,7 @@ export default function Controls() {
       }
     >
       <AnimatePresence>
-        {status.value === "connected" ? (
+        {isInCall ? (
           <motion.div
             initial={{
               y: "100%",
@@ -57,10 +81,66 @@ export default function Controls() {
               )}
             </Toggle>
 
+            {inputDevices.length > 0 ? (
+              <DeviceSelect
+                aria-label={"麦克风"}
+                devices={inputDevices}
+                value={selectedInputDeviceId}
+                fallbackLabel={"麦克风"}
+                onChange={(deviceId) => {
+                  setDeviceError(null);
+                  selectInputDevice(deviceId).catch(() => {
+                    setDeviceError("无法切换到该麦克风");
+                  });
+                }}
+              />
+            ) : null}
+
+            {outputDevices.length > 0 ? (
+              <DeviceSelect
+                aria-label={"扬声器"}
+                devices={outputDevices}
+                value={selectedOutputDeviceId}
+                fallbackLabel={"扬声器"}
+                onChange={(deviceId) => {
+                  setDeviceError(null);
+                  selectOutputDevice(deviceId).catch(() => {
+                    setDeviceError("无法切换到该扬声器");
+                  });
+                }}
+              />
+            ) : null}
+
             <div className={"relative grid h-8 w-48 shrink grow-0"}>
               <MicFFT fft={micFft} className={"fill-current"} />
             </div>
 
+            {inputMode === "pushToTalk" ? <PushToTalkButton /> : null}
+
+            {roundTripTime !== null && status.value === "connected" ? (
+              <ConnectionQuality roundTripTime={roundTripTime} />
+            ) : null}
+
+            {deviceError !== null ? (
+              <span className={"text-xs text-destructive"}>{deviceError}</span>
+            ) : null}
+
+            {isEchoDetected ? (
+              <span className={"text-xs text-muted-foreground"}>
+                检测到回声，建议佩戴耳机
+              </span>
+            ) : null}
+
+            {status.value === "reconnecting" ? (
+              <span className={"text-xs text-muted-foreground"}>
+                正在重新连接（第 {status.attempt} 次）…
+              </span>
+            ) : readyState === VoiceReadyState.DEGRADED ? (
+              <span className={"text-xs text-muted-foreground"}>
+                连接中断，正在恢复…
+              </span>
+            ) : null}
+
             <Button
               className={"flex items-center gap-1"}
               onClick={() => {
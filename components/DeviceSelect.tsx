@@ -0,0 +1,45 @@
+"use client";
+
+import { cn } from "@/utils";
+
+export default function DeviceSelect({
+  devices,
+  value,
+  onChange,
+  fallbackLabel,
+  className,
+  ...props
+}: {
+  devices: MediaDeviceInfo[];
+  /** The selected device id, or `null` for the system default. */
+  value: string | null;
+  onChange: (deviceId: string | null) => void;
+  /** Prefix for devices without a label, numbered from 1. */
+  fallbackLabel: string;
+  className?: string;
+  "aria-label"?: string;
+}) {
+  return (
+    <select
+      className={cn(
+        "h-8 max-w-40 truncate rounded-md border border-input bg-background px-2 text-xs",
+        className,
+      )}
+      value={value ?? ""}
+      onChange={(event) => {
+        onChange(event.target.value === "" ? null : event.target.value);
+      }}
+      {...props}
+    >
+      <option value={""}>系统默认</option>
+      {devices
+        // the browser's own default entry duplicates the option above
+        .filter((device) => device.deviceId !== "" && device.deviceId !== "default")
+        .map((device, index) => (
+          <option key={device.deviceId} value={device.deviceId}>
+            {device.label || `${fallbackLabel} ${index + 1}`}
+          </option>
+        ))}
+    </select>
+  );
+}
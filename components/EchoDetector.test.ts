@@ -0,0 +1,183 @@
+import { describe, expect, it } from 'vitest';
+
+import { EchoDetector, crossCorrelate, estimateEcho } from './EchoDetector';
+
+const SAMPLE_RATE = 16000;
+// 20 ms chunks
+const CHUNK_SIZE = 320;
+const CHUNK_MS = 20;
+// an arbitrary wall clock time, in milliseconds since the epoch
+const T0 = 1700000000000;
+
+/** Deterministic white noise in [-amplitude, amplitude]. */
+const noise = (length: number, seed: number, amplitude = 0.5) => {
+  let state = seed;
+  const samples = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    state = (state * 1664525 + 1013904223) % 2 ** 32;
+    samples[i] = amplitude * ((state / 2 ** 32) * 2 - 1);
+  }
+  return samples;
+};
+
+/** `samples` delayed by `delay` samples and scaled by `gain`. */
+const delayed = (samples: Float32Array, delay: number, gain: number) => {
+  const output = new Float32Array(samples.length);
+  for (let i = delay; i < samples.length; i++) {
+    output[i] = gain * samples[i - delay]!;
+  }
+  return output;
+};
+
+const naiveCrossCorrelate = (signal: Float32Array, reference: Float32Array) =>
+  Array.from({ length: reference.length - signal.length + 1 }, (_, k) =>
+    signal.reduce((sum, sample, n) => sum + sample * reference[n + k]!, 0),
+  );
+
+/** Feed both signals to a detector in chunks, as if from T0. */
+const feed = (
+  detector: EchoDetector,
+  playback: Float32Array | null,
+  capture: Float32Array,
+) => {
+  for (let i = 0; i < capture.length; i += CHUNK_SIZE) {
+    const start = T0 + (i / CHUNK_SIZE) * CHUNK_MS;
+    if (playback) {
+      detector.addPlayback(playback.subarray(i, i + CHUNK_SIZE), start);
+    }
+    detector.addCapture(capture.subarray(i, i + CHUNK_SIZE), start);
+  }
+};
+
+describe('crossCorrelate', () => {
+  it('matches the direct sum at every lag', () => {
+    const signal = noise(50, 1);
+    const reference = noise(80, 2);
+    const result = crossCorrelate(signal, reference);
+
+    expect(result).toHaveLength(31);
+    naiveCrossCorrelate(signal, reference).forEach((expected, k) => {
+      expect(result[k]).toBeCloseTo(expected, 9);
+    });
+  });
+
+  it('is empty when the reference is shorter than the signal', () => {
+    expect(crossCorrelate(noise(10, 1), noise(9, 2))).toHaveLength(0);
+  });
+});
+
+describe('estimateEcho', () => {
+  const maxLag = 200;
+
+  /** A capture that is `reference` delayed by `delay` and scaled by `gain`. */
+  const echoOf = (reference: Float32Array, delay: number, gain: number) =>
+    delayed(reference, delay, gain).subarray(maxLag);
+
+  it('finds the delay and gain of an echo', () => {
+    const reference = noise(1000 + maxLag, 1);
+    const echo = estimateEcho(echoOf(reference, 73, 0.3), reference);
+
+    expect(echo).not.toBeNull();
+    expect(echo!.delay).toBe(73);
+    expect(echo!.gain).toBeCloseTo(0.3, 6);
+    expect(echo!.correlation).toBeCloseTo(1, 6);
+  });
+
+  it('finds an echo with no delay', () => {
+    const reference = noise(1000 + maxLag, 1);
+    const echo = estimateEcho(echoOf(reference, 0, 1), reference);
+
+    expect(echo!.delay).toBe(0);
+    expect(echo!.gain).toBeCloseTo(1, 6);
+  });
+
+  it('finds little correlation with unrelated audio', () => {
+    const echo = estimateEcho(noise(1000, 2), noise(1000 + maxLag, 1));
+
+    expect(echo).not.toBeNull();
+    expect(echo!.correlation).toBeLessThan(0.2);
+  });
+
+  it('returns null when the capture is silent', () => {
+    expect(
+      estimateEcho(new Float32Array(1000), noise(1000 + maxLag, 1)),
+    ).toBeNull();
+  });
+
+  it('returns null when the reference is silent', () => {
+    expect(
+      estimateEcho(noise(1000, 1), new Float32Array(1000 + maxLag)),
+    ).toBeNull();
+  });
+
+  it('returns null when the reference does not cover the capture', () => {
+    expect(estimateEcho(noise(1000, 1), noise(999, 2))).toBeNull();
+  });
+});
+
+describe('EchoDetector', () => {
+  // 1.5 seconds, enough for a 500 ms window and 400 ms of delay
+  const LENGTH = 75 * CHUNK_SIZE;
+
+  it('estimates the delay and echo return loss of playback', () => {
+    const detector = new EchoDetector(SAMPLE_RATE);
+    const playback = noise(LENGTH, 1);
+    // 120 ms later and 12 dB down, over some background noise
+    const capture = delayed(playback, 1920, 0.25);
+    const background = noise(LENGTH, 2, 0.005);
+    capture.forEach((_, i) => {
+      capture[i]! += background[i]!;
+    });
+    feed(detector, playback, capture);
+
+    const estimate = detector.analyze();
+    expect(estimate).not.toBeNull();
+    expect(estimate!.delay).toBe(120);
+    expect(estimate!.echoReturnLoss).toBeCloseTo(12.04, 1);
+    expect(estimate!.correlation).toBeGreaterThan(0.95);
+    expect(detector.isSignificant(estimate!)).toBe(true);
+  });
+
+  it('does not count unrelated audio as echo', () => {
+    const detector = new EchoDetector(SAMPLE_RATE);
+    feed(detector, noise(LENGTH, 1), noise(LENGTH, 2));
+
+    const estimate = detector.analyze();
+    expect(estimate).not.toBeNull();
+    expect(detector.isSignificant(estimate!)).toBe(false);
+  });
+
+  it('returns null while nothing is playing', () => {
+    const detector = new EchoDetector(SAMPLE_RATE);
+    feed(detector, null, noise(LENGTH, 2));
+
+    expect(detector.analyze()).toBeNull();
+  });
+
+  it('returns null while playback is too quiet to echo', () => {
+    const detector = new EchoDetector(SAMPLE_RATE);
+    const playback = noise(LENGTH, 1, 0.001);
+    feed(detector, playback, delayed(playback, 1920, 1));
+
+    expect(detector.analyze()).toBeNull();
+  });
+
+  it('waits for a full window of new capture between analyses', () => {
+    const detector = new EchoDetector(SAMPLE_RATE);
+    const playback = noise(LENGTH, 1);
+    feed(detector, playback, delayed(playback, 1920, 0.25));
+
+    expect(detector.analyze()).not.toBeNull();
+    expect(detector.analyze()).toBeNull();
+  });
+
+  it('applies minCorrelation', () => {
+    const detector = new EchoDetector(SAMPLE_RATE, { minCorrelation: 0.8 });
+    const estimate = { delay: 100, echoReturnLoss: 10, correlation: 0.7 };
+
+    expect(detector.isSignificant(estimate)).toBe(false);
+    expect(detector.isSignificant({ ...estimate, correlation: 0.8 })).toBe(
+      true,
+    );
+  });
+});
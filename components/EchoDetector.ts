@@ -0,0 +1,316 @@
+import { energyDb } from './VoiceActivityDetector';
+
+export type EchoEstimate = {
+  /** Milliseconds from playback to the echo arriving at the microphone. */
+  delay: number;
+  /**
+   * How much quieter the echo is than the playback, in dB. Lower means more
+   * echo.
+   */
+  echoReturnLoss: number;
+  /**
+   * Normalized cross-correlation at `delay`, from 0 for none of the
+   * microphone signal being explained by the playback to 1 for all of it.
+   */
+  correlation: number;
+};
+
+export type EchoDetectorOptions = {
+  /**
+   * @default 400
+   * @description Longest delay to look for, in milliseconds. Covers the
+   * output and input latency as well as the acoustic path.
+   */
+  maxDelay?: number;
+  /**
+   * @default 500
+   * @description Milliseconds of microphone audio compared in each analysis.
+   */
+  window?: number;
+  /**
+   * @default 0.4
+   * @description Correlation at or above which echo counts as significant.
+   */
+  minCorrelation?: number;
+};
+
+type TimedChunk = {
+  /** Start time in milliseconds since the epoch. */
+  start: number;
+  samples: Float32Array;
+};
+
+const DEFAULT_OPTIONS: Required<EchoDetectorOptions> = {
+  maxDelay: 400,
+  window: 500,
+  minCorrelation: 0.4,
+};
+
+// below this, in dBFS, the playback is too quiet to have a measurable echo
+const MIN_REFERENCE_ENERGY = -50;
+
+const nextPowerOfTwo = (n: number): number => {
+  let size = 1;
+  while (size < n) {
+    size *= 2;
+  }
+  return size;
+};
+
+/**
+ * In-place iterative radix-2 FFT. `inverse` computes the unscaled inverse.
+ */
+const fft = (re: Float64Array, im: Float64Array, inverse: boolean): void => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j]!, re[i]!];
+      [im[i], im[j]] = [im[j]!, im[i]!];
+    }
+  }
+  for (let size = 2; size <= n; size *= 2) {
+    const angle = ((inverse ? 2 : -2) * Math.PI) / size;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let wRe = 1;
+      let wIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b]! * wRe - im[b]! * wIm;
+        const tIm = re[b]! * wIm + im[b]! * wRe;
+        re[b] = re[a]! - tRe;
+        im[b] = im[a]! - tIm;
+        re[a] = re[a]! + tRe;
+        im[a] = im[a]! + tIm;
+        const nextRe = wRe * stepRe - wIm * stepIm;
+        wIm = wRe * stepIm + wIm * stepRe;
+        wRe = nextRe;
+      }
+    }
+  }
+};
+
+/**
+ * @name crossCorrelate
+ * @description
+ * `result[k]` is the sum over n of `signal[n] * reference[n + k]`, for every
+ * k from 0 to `reference.length - signal.length`.
+ */
+export const crossCorrelate = (
+  signal: Float32Array,
+  reference: Float32Array,
+): Float64Array => {
+  const lags = reference.length - signal.length + 1;
+  if (lags < 1) {
+    return new Float64Array(0);
+  }
+
+  const size = nextPowerOfTwo(reference.length + signal.length);
+  const sRe = new Float64Array(size);
+  const sIm = new Float64Array(size);
+  const rRe = new Float64Array(size);
+  const rIm = new Float64Array(size);
+  sRe.set(signal);
+  rRe.set(reference);
+  fft(sRe, sIm, false);
+  fft(rRe, rIm, false);
+
+  // conj(S) * R
+  for (let i = 0; i < size; i++) {
+    const re = sRe[i]! * rRe[i]! + sIm[i]! * rIm[i]!;
+    const im = sRe[i]! * rIm[i]! - sIm[i]! * rRe[i]!;
+    sRe[i] = re;
+    sIm[i] = im;
+  }
+  fft(sRe, sIm, true);
+
+  const result = new Float64Array(lags);
+  for (let k = 0; k < lags; k++) {
+    result[k] = sRe[k]! / size;
+  }
+  return result;
+};
+
+/**
+ * @name estimateEcho
+ * @description
+ * Find how much of `capture` is a delayed, scaled copy of `reference`.
+ * `reference` must start `maxLag` samples before `capture` and cover it, so
+ * that `reference.length` is `capture.length + maxLag`.
+ * @returns the best matching delay in samples, with the gain and correlation
+ * at it, or null if either signal is silent
+ */
+export const estimateEcho = (
+  capture: Float32Array,
+  reference: Float32Array,
+): { delay: number; gain: number; correlation: number } | null => {
+  const maxLag = reference.length - capture.length;
+  const cc = crossCorrelate(capture, reference);
+  if (cc.length === 0) {
+    return null;
+  }
+
+  let captureEnergy = 0;
+  for (let i = 0; i < capture.length; i++) {
+    captureEnergy += capture[i]! * capture[i]!;
+  }
+
+  // energy of the reference under the capture window at each lag
+  let referenceEnergy = 0;
+  for (let i = 0; i < capture.length; i++) {
+    referenceEnergy += reference[i]! * reference[i]!;
+  }
+
+  let best: { delay: number; gain: number; correlation: number } | null =
+    null;
+  for (let k = 0; k < cc.length; k++) {
+    if (k > 0) {
+      const leaving = reference[k - 1]!;
+      const entering = reference[k + capture.length - 1]!;
+      referenceEnergy += entering * entering - leaving * leaving;
+    }
+    if (captureEnergy <= 0 || referenceEnergy <= 1e-12) {
+      continue;
+    }
+    const correlation = cc[k]! / Math.sqrt(captureEnergy * referenceEnergy);
+    if (best === null || correlation > best.correlation) {
+      best = {
+        delay: maxLag - k,
+        gain: cc[k]! / referenceEnergy,
+        correlation,
+      };
+    }
+  }
+  return best;
+};
+
+/**
+ * Render the chunks that overlap `[start, start + length)` samples, at
+ * `sampleRate`, into one buffer with silence in between.
+ */
+const render = (
+  chunks: TimedChunk[],
+  start: number,
+  length: number,
+  sampleRate: number,
+): Float32Array => {
+  const output = new Float32Array(length);
+  chunks.forEach((chunk) => {
+    const offset = Math.round(((chunk.start - start) * sampleRate) / 1000);
+    for (let i = Math.max(0, -offset); i < chunk.samples.length; i++) {
+      if (offset + i >= length) {
+        break;
+      }
+      output[offset + i] = chunk.samples[i]!;
+    }
+  });
+  return output;
+};
+
+/**
+ * Estimates how much of the assistant's playback comes back through the
+ * microphone, by lining up both on the wall clock and cross-correlating them.
+ * Both signals must be mono and at `sampleRate`.
+ */
+export class EchoDetector {
+  public readonly sampleRate: number;
+  private readonly options: Required<EchoDetectorOptions>;
+
+  private playback: TimedChunk[] = [];
+  private capture: TimedChunk[] = [];
+  /** End of the capture analyzed last, in milliseconds since the epoch. */
+  private analyzedUntil = 0;
+
+  constructor(sampleRate: number, options: EchoDetectorOptions = {}) {
+    this.sampleRate = sampleRate;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Record audio that started playing at `start`, in milliseconds since the
+   * epoch.
+   */
+  addPlayback(samples: Float32Array, start: number): void {
+    this.playback.push({ start, samples });
+  }
+
+  /**
+   * Record microphone audio captured at `start`, in milliseconds since the
+   * epoch.
+   */
+  addCapture(samples: Float32Array, start: number): void {
+    this.capture.push({ start, samples });
+  }
+
+  /**
+   * Analyze the latest window of captured audio, once enough has been
+   * captured since the last analysis.
+   * @returns the estimate, or null if there is nothing new to analyze or
+   * nothing was playing
+   */
+  analyze(): EchoEstimate | null {
+    const { maxDelay, window } = this.options;
+    const last = this.capture[this.capture.length - 1];
+    if (!last) {
+      return null;
+    }
+    const end = last.start + (last.samples.length / this.sampleRate) * 1000;
+    const start = end - window;
+    if (start < this.analyzedUntil) {
+      return null;
+    }
+    this.analyzedUntil = end;
+    this.prune(start - maxDelay);
+
+    const length = Math.round((window * this.sampleRate) / 1000);
+    const maxLag = Math.round((maxDelay * this.sampleRate) / 1000);
+    const capture = render(this.capture, start, length, this.sampleRate);
+    const reference = render(
+      this.playback,
+      start - maxDelay,
+      length + maxLag,
+      this.sampleRate,
+    );
+    if (energyDb(reference) < MIN_REFERENCE_ENERGY) {
+      return null;
+    }
+
+    const echo = estimateEcho(capture, reference);
+    if (echo === null) {
+      return null;
+    }
+    return {
+      delay: (echo.delay / this.sampleRate) * 1000,
+      echoReturnLoss:
+        echo.gain > 0 ? -20 * Math.log10(echo.gain) : Infinity,
+      correlation: Math.max(0, echo.correlation),
+    };
+  }
+
+  /**
+   * Whether an estimate shows significant echo.
+   */
+  isSignificant(estimate: EchoEstimate): boolean {
+    return estimate.correlation >= this.options.minCorrelation;
+  }
+
+  reset(): void {
+    this.playback = [];
+    this.capture = [];
+    this.analyzedUntil = 0;
+  }
+
+  private prune(before: number): void {
+    const isCurrent = (chunk: TimedChunk) =>
+      chunk.start + (chunk.samples.length / this.sampleRate) * 1000 > before;
+    this.playback = this.playback.filter(isCurrent);
+    this.capture = this.capture.filter(isCurrent);
+  }
+}
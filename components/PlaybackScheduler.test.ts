@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+
+import { PlaybackScheduler } from './PlaybackScheduler';
+
+// 100 ms of jitter buffer, in seconds
+const JITTER = 0.1;
+
+describe('PlaybackScheduler', () => {
+  it('starts a stream after the jitter buffer target', () => {
+    const scheduler = new PlaybackScheduler();
+
+    expect(scheduler.schedule(0.5, 10)).toEqual({
+      startTime: 10 + JITTER,
+      isUnderrun: false,
+    });
+  });
+
+  it('schedules chunks back to back', () => {
+    const scheduler = new PlaybackScheduler();
+
+    const first = scheduler.schedule(0.5, 10);
+    // chunks arriving before the audio runs out, at any time
+    const second = scheduler.schedule(0.25, 10.05);
+    const third = scheduler.schedule(0.5, 10.7);
+
+    expect(second.startTime).toBeCloseTo(first.startTime + 0.5, 9);
+    expect(third.startTime).toBeCloseTo(first.startTime + 0.75, 9);
+    expect([first, second, third].some((chunk) => chunk.isUnderrun)).toBe(
+      false,
+    );
+  });
+
+  it('uses the configured jitter buffer target', () => {
+    const scheduler = new PlaybackScheduler({ jitterBufferTarget: 250 });
+
+    expect(scheduler.schedule(0.5, 10).startTime).toBeCloseTo(10.25, 9);
+  });
+
+  it('counts a chunk arriving after the audio ran out as an underrun', () => {
+    const scheduler = new PlaybackScheduler();
+    // plays from 10.1 to 10.6
+    scheduler.schedule(0.5, 10);
+
+    const late = scheduler.schedule(0.5, 10.8);
+    expect(late.isUnderrun).toBe(true);
+    // buffers again rather than starting right away
+    expect(late.startTime).toBeCloseTo(10.8 + JITTER, 9);
+
+    const metrics = scheduler.getMetrics(10.8);
+    expect(metrics.underruns).toBe(1);
+    // silent from 10.6 until 10.9
+    expect(metrics.underrunDuration).toBeCloseTo(300, 6);
+  });
+
+  it('adds up underruns', () => {
+    const scheduler = new PlaybackScheduler();
+    scheduler.schedule(0.5, 10);
+    // ran out at 10.6, restarts at 10.8 until 11.3
+    scheduler.schedule(0.5, 10.7);
+    // ran out at 11.3, restarts at 11.5
+    scheduler.schedule(0.5, 11.4);
+
+    const metrics = scheduler.getMetrics(11.4);
+    expect(metrics.underruns).toBe(2);
+    expect(metrics.underrunDuration).toBeCloseTo(400, 6);
+  });
+
+  it('starts a new stream after the underrun window', () => {
+    const scheduler = new PlaybackScheduler({ underrunWindow: 1000 });
+    // ran out at 10.6
+    scheduler.schedule(0.5, 10);
+
+    const next = scheduler.schedule(0.5, 11.7);
+    expect(next.isUnderrun).toBe(false);
+    expect(next.startTime).toBeCloseTo(11.7 + JITTER, 9);
+    expect(scheduler.getMetrics(11.7).underruns).toBe(0);
+  });
+
+  it('counts an underrun right at the end of the underrun window', () => {
+    const scheduler = new PlaybackScheduler({
+      jitterBufferTarget: 0,
+      underrunWindow: 500,
+    });
+    // ran out at 10.5
+    scheduler.schedule(0.5, 10);
+
+    expect(scheduler.schedule(0.5, 11).isUnderrun).toBe(true);
+  });
+
+  it('starts a new stream after clear', () => {
+    const scheduler = new PlaybackScheduler();
+    scheduler.schedule(0.5, 10);
+
+    scheduler.clear();
+    // before the cleared audio would have run out
+    const next = scheduler.schedule(0.5, 10.2);
+    expect(next).toEqual({ startTime: 10.2 + JITTER, isUnderrun: false });
+
+    // and just after it would have
+    scheduler.clear();
+    expect(scheduler.schedule(0.5, 10.9).isUnderrun).toBe(false);
+    expect(scheduler.getMetrics(10.9).underruns).toBe(0);
+  });
+
+  it('reports the audio still buffered', () => {
+    const scheduler = new PlaybackScheduler();
+    expect(scheduler.getMetrics(10).bufferedDuration).toBe(0);
+
+    scheduler.schedule(0.5, 10);
+    scheduler.schedule(0.5, 10);
+    expect(scheduler.getMetrics(10).bufferedDuration).toBeCloseTo(1100, 6);
+    expect(scheduler.getMetrics(10.6).bufferedDuration).toBeCloseTo(500, 6);
+    expect(scheduler.getMetrics(12).bufferedDuration).toBe(0);
+
+    scheduler.clear();
+    expect(scheduler.getMetrics(10.6).bufferedDuration).toBe(0);
+  });
+
+  it('counts the chunks it scheduled', () => {
+    const scheduler = new PlaybackScheduler();
+    scheduler.schedule(0.5, 10);
+    scheduler.clear();
+    scheduler.schedule(0.5, 20);
+
+    expect(scheduler.getMetrics(20).scheduledChunks).toBe(2);
+  });
+});
@@ -0,0 +1,117 @@
+export type PlaybackSchedulerOptions = {
+  /**
+   * @default 100
+   * @description Milliseconds of audio to buffer before a stream starts, and
+   * again after an underrun, so that chunks arriving late do not leave gaps.
+   */
+  jitterBufferTarget?: number;
+  /**
+   * @default 1000
+   * @description A chunk arriving this many milliseconds or less after the
+   * scheduled audio ran out counts as an underrun. Later than that, it is
+   * taken for the start of a new stream.
+   */
+  underrunWindow?: number;
+};
+
+const DEFAULT_OPTIONS: Required<PlaybackSchedulerOptions> = {
+  jitterBufferTarget: 100,
+  underrunWindow: 1000,
+};
+
+export type PlaybackMetrics = {
+  /** Chunks scheduled since the scheduler was created. */
+  scheduledChunks: number;
+  /** Times the scheduled audio ran out before the next chunk arrived. */
+  underruns: number;
+  /** Total silence caused by underruns, in milliseconds. */
+  underrunDuration: number;
+  /** Audio scheduled but not yet played, in milliseconds. */
+  bufferedDuration: number;
+};
+
+export type ScheduledChunk = {
+  /** When the chunk should start, on the same clock as `now`, in seconds. */
+  startTime: number;
+  /** Whether the chunk arrived after the audio before it had run out. */
+  isUnderrun: boolean;
+};
+
+/**
+ * Places consecutive chunks of a stream back to back on an audio clock, such
+ * as `AudioContext.currentTime`. The clock is passed in on every call rather
+ * than read, so that the scheduler has no dependency on Web Audio.
+ */
+export class PlaybackScheduler {
+  private readonly jitterBufferTarget: number;
+  private readonly underrunWindow: number;
+
+  /** End of the scheduled audio in seconds, or null when none is scheduled. */
+  private nextStartTime: number | null = null;
+  private scheduledChunks = 0;
+  private underruns = 0;
+  private underrunDuration = 0;
+
+  constructor(options: PlaybackSchedulerOptions = {}) {
+    const { jitterBufferTarget, underrunWindow } = {
+      ...DEFAULT_OPTIONS,
+      ...options,
+    };
+    this.jitterBufferTarget = jitterBufferTarget / 1000;
+    this.underrunWindow = underrunWindow / 1000;
+  }
+
+  /**
+   * Schedule the next chunk of the stream.
+   * @param duration - Length of the chunk in seconds.
+   * @param now - The current time of the clock, in seconds.
+   */
+  schedule(duration: number, now: number): ScheduledChunk {
+    let startTime: number;
+    let isUnderrun = false;
+
+    if (this.nextStartTime !== null && this.nextStartTime >= now) {
+      // gapless, straight after the previous chunk
+      startTime = this.nextStartTime;
+    } else {
+      if (
+        this.nextStartTime !== null &&
+        now - this.nextStartTime <= this.underrunWindow
+      ) {
+        isUnderrun = true;
+        this.underruns++;
+      }
+      startTime = now + this.jitterBufferTarget;
+      if (isUnderrun && this.nextStartTime !== null) {
+        this.underrunDuration += (startTime - this.nextStartTime) * 1000;
+      }
+    }
+
+    this.nextStartTime = startTime + duration;
+    this.scheduledChunks++;
+    return { startTime, isUnderrun };
+  }
+
+  /**
+   * @param now - The current time of the clock, in seconds.
+   */
+  getMetrics(now: number): PlaybackMetrics {
+    return {
+      scheduledChunks: this.scheduledChunks,
+      underruns: this.underruns,
+      underrunDuration: this.underrunDuration,
+      bufferedDuration:
+        this.nextStartTime === null
+          ? 0
+          : Math.max(0, this.nextStartTime - now) * 1000,
+    };
+  }
+
+  /**
+   * Forget the scheduled audio, e.g. after it was stopped, so that the next
+   * chunk starts a new stream rather than counting as an underrun.
+   */
+  clear(): void {
+    this.nextStartTime = null;
+  }
+}
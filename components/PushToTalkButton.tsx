@@ -0,0 +1,75 @@
+"use client";
+
+import { useEffect } from "react";
+import { Mic } from "lucide-react";
+import { useVoice } from "./VoiceProvider";
+import { Button } from "./ui/button";
+import { cn } from "@/utils";
+
+// held anywhere on the page, except while typing, to talk
+const TALK_KEY_CODE = "Space";
+
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    target.tagName === "INPUT" ||
+    target.tagName === "TEXTAREA" ||
+    target.tagName === "SELECT");
+
+export default function PushToTalkButton({
+  className,
+}: {
+  className?: string;
+}) {
+  const { isTalking, startTalking, stopTalking } = useVoice();
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (
+        event.code !== TALK_KEY_CODE ||
+        event.repeat ||
+        isEditable(event.target)
+      ) {
+        return;
+      }
+      // keep the page from scrolling and focused buttons from clicking
+      event.preventDefault();
+      startTalking();
+    };
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.code === TALK_KEY_CODE) {
+        stopTalking();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    // the key up is lost when the window loses focus while it is held
+    window.addEventListener("blur", stopTalking);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+      window.removeEventListener("blur", stopTalking);
+    };
+  }, [startTalking, stopTalking]);
+
+  return (
+    <Button
+      className={cn("flex items-center gap-1 select-none touch-none", className)}
+      variant={isTalking ? "default" : "outline"}
+      onPointerDown={(event) => {
+        // keep receiving pointer up when the pointer leaves the button
+        event.currentTarget.setPointerCapture(event.pointerId);
+        startTalking();
+      }}
+      onPointerUp={stopTalking}
+      onPointerCancel={stopTalking}
+      title={"按住空格键或此按钮说话"}
+    >
+      <span>
+        <Mic className={"size-4 opacity-50"} />
+      </span>
+      <span>{isTalking ? "松开结束" : "按住说话"}</span>
+    </Button>
+  );
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+
+import { Resampler } from './Resampler';
+
+const sine = (frequency: number, sampleRate: number, length: number) => {
+  const samples = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    samples[i] = Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+  }
+  return samples;
+};
+
+const concat = (...chunks: Float32Array[]) => {
+  const result = new Float32Array(
+    chunks.reduce((length, chunk) => length + chunk.length, 0),
+  );
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return result;
+};
+
+const resampleAll = (resampler: Resampler, input: Float32Array) =>
+  concat(resampler.process(input), resampler.flush());
+
+/** RMS level in dB relative to a full scale sine, skipping filter edges. */
+const levelDb = (samples: Float32Array, edge: number) => {
+  let sum = 0;
+  const body = samples.subarray(edge, samples.length - edge);
+  body.forEach((sample) => {
+    sum += sample * sample;
+  });
+  return 20 * Math.log10(Math.sqrt((2 * sum) / body.length));
+};
+
+const RATES = [48000, 44100, 22050];
+
+describe('Resampler', () => {
+  it.each(RATES)('produces one second of output from one second at %i Hz', (rate) => {
+    const output = resampleAll(new Resampler(rate, 16000), sine(440, rate, rate));
+    expect(output.length).toBe(16000);
+  });
+
+  it.each(RATES)('produces the same output in chunks as at once from %i Hz', (rate) => {
+    const input = sine(440, rate, rate / 2);
+    const expected = resampleAll(new Resampler(rate, 16000), input);
+
+    const resampler = new Resampler(rate, 16000);
+    const chunks: Float32Array[] = [];
+    // uneven sizes, including empty and single sample chunks
+    const sizes = [0, 1, 127, 480, 2, 1000, 3];
+    let offset = 0;
+    for (let i = 0; offset < input.length; i++) {
+      const size = sizes[i % sizes.length]!;
+      chunks.push(resampler.process(input.subarray(offset, offset + size)));
+      offset += size;
+    }
+    chunks.push(resampler.flush());
+
+    expect(concat(...chunks)).toEqual(expected);
+  });
+
+  it.each(RATES)('passes a 1 kHz tone from %i Hz at unity gain', (rate) => {
+    const output = resampleAll(new Resampler(rate, 16000), sine(1000, rate, rate));
+    expect(Math.abs(levelDb(output, 200))).toBeLessThan(0.05);
+  });
+
+  it.each(RATES)('attenuates a tone above the target Nyquist from %i Hz', (rate) => {
+    // 9 kHz would alias to 7 kHz at 16 kHz
+    const output = resampleAll(new Resampler(rate, 16000), sine(9000, rate, rate));
+    expect(levelDb(output, 200)).toBeLessThan(-60);
+  });
+
+  it('lines the output up with the input', () => {
+    const input = new Float32Array(4800);
+    input[2400] = 1;
+    const output = resampleAll(new Resampler(48000, 16000), input);
+
+    const peak = output.reduce(
+      (best, sample, i) => (sample > output[best]! ? i : best),
+      0,
+    );
+    expect(peak).toBe(800);
+  });
+
+  it('passes samples through when the rates match', () => {
+    const input = sine(440, 16000, 100);
+    const resampler = new Resampler(16000, 16000);
+
+    expect(resampler.process(input)).toEqual(input);
+    expect(resampler.flush()).toHaveLength(0);
+  });
+
+  it('starts over after reset', () => {
+    const input = sine(440, 48000, 4800);
+    const resampler = new Resampler(48000, 16000);
+    const first = resampleAll(resampler, input);
+
+    resampler.process(sine(1000, 48000, 999));
+    resampler.reset();
+    expect(resampleAll(resampler, input)).toEqual(first);
+  });
+
+  it('rejects invalid sample rates', () => {
+    expect(() => new Resampler(0, 16000)).toThrow('Invalid sample rates');
+    expect(() => new Resampler(44100.5, 16000)).toThrow('Invalid sample rates');
+  });
+});
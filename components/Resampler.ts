@@ -0,0 +1,219 @@
+export type ResamplerOptions = {
+  /**
+   * @default 16
+   * @description Zero crossings of the sinc kernel on each side. More gives a
+   * steeper transition band at the cost of latency and CPU.
+   */
+  zeroCrossings?: number;
+  /**
+   * @default 0.945
+   * @description Cutoff as a fraction of the lower of the two Nyquist
+   * frequencies, leaving room for the transition band below it.
+   */
+  rolloff?: number;
+  /**
+   * @default 8.6
+   * @description Kaiser window shape; 8.6 gives roughly 86 dB of stopband
+   * attenuation.
+   */
+  kaiserBeta?: number;
+};
+
+const DEFAULT_OPTIONS: Required<ResamplerOptions> = {
+  zeroCrossings: 16,
+  rolloff: 0.945,
+  kaiserBeta: 8.6,
+};
+
+// phases are quantized beyond this to bound the size of the filter table
+const MAX_PHASES = 1024;
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+const sinc = (x: number): number => {
+  if (x === 0) {
+    return 1;
+  }
+  return Math.sin(Math.PI * x) / (Math.PI * x);
+};
+
+/**
+ * Zeroth order modified Bessel function of the first kind, for the Kaiser
+ * window.
+ */
+const besselI0 = (x: number): number => {
+  let sum = 1;
+  let term = 1;
+  const halfX = x / 2;
+  for (let k = 1; k < 50; k++) {
+    term *= (halfX / k) * (halfX / k);
+    sum += term;
+    if (term < sum * 1e-12) {
+      break;
+    }
+  }
+  return sum;
+};
+
+/**
+ * Streaming polyphase resampler using a Kaiser-windowed sinc kernel.
+ *
+ * The ratio between the two rates is reduced to `up / down`, and one filter
+ * is precomputed for every fractional position an output sample can fall on.
+ * Samples are carried over between calls to `process`, so a stream can be fed
+ * in chunks of any size and produces the same output as processing it in one
+ * piece. Output lags input by `latency` input samples.
+ */
+export class Resampler {
+  public readonly inputRate: number;
+  public readonly outputRate: number;
+
+  private readonly up: number;
+  private readonly down: number;
+  private readonly phases: number;
+  private readonly halfTaps: number;
+  private readonly filters: Float32Array[];
+
+  /** Input samples that the next output samples still need. */
+  private buffer: Float32Array;
+  /** Position of the next output sample, in units of 1 / `up` input samples. */
+  private position: number;
+
+  constructor(
+    inputRate: number,
+    outputRate: number,
+    options: ResamplerOptions = {},
+  ) {
+    if (
+      !Number.isInteger(inputRate) ||
+      !Number.isInteger(outputRate) ||
+      inputRate <= 0 ||
+      outputRate <= 0
+    ) {
+      throw new Error(
+        `Invalid sample rates: ${inputRate} Hz to ${outputRate} Hz`,
+      );
+    }
+    const { zeroCrossings, rolloff, kaiserBeta } = {
+      ...DEFAULT_OPTIONS,
+      ...options,
+    };
+
+    this.inputRate = inputRate;
+    this.outputRate = outputRate;
+
+    const divisor = gcd(inputRate, outputRate);
+    this.up = outputRate / divisor;
+    this.down = inputRate / divisor;
+    this.phases = Math.min(this.up, MAX_PHASES);
+
+    // cutoff in cycles per input sample, relative to the input Nyquist
+    const cutoff = Math.min(1, outputRate / inputRate) * rolloff;
+    this.halfTaps = Math.ceil(zeroCrossings / cutoff);
+
+    const windowNorm = besselI0(kaiserBeta);
+    this.filters = [];
+    // one extra phase so that a fractional position rounding up to 1 is valid
+    for (let p = 0; p <= this.phases; p++) {
+      const fraction = p / this.phases;
+      const filter = new Float32Array(2 * this.halfTaps);
+      let sum = 0;
+      for (let j = 0; j < filter.length; j++) {
+        // distance of tap j from the output position, in input samples
+        const x = j - this.halfTaps + 1 - fraction;
+        const w = x / this.halfTaps;
+        const window =
+          Math.abs(w) >= 1
+            ? 0
+            : besselI0(kaiserBeta * Math.sqrt(1 - w * w)) / windowNorm;
+        const value = cutoff * sinc(cutoff * x) * window;
+        filter[j] = value;
+        sum += value;
+      }
+      // unity gain at DC
+      for (let j = 0; j < filter.length; j++) {
+        filter[j]! /= sum;
+      }
+      this.filters.push(filter);
+    }
+
+    this.buffer = new Float32Array(0);
+    this.position = 0;
+    this.reset();
+  }
+
+  /**
+   * Input samples by which the output lags the input.
+   */
+  get latency(): number {
+    return this.halfTaps;
+  }
+
+  /**
+   * Resample the next chunk of the stream.
+   */
+  process(input: Float32Array): Float32Array {
+    if (this.up === this.down) {
+      return input.slice();
+    }
+
+    const buffer = new Float32Array(this.buffer.length + input.length);
+    buffer.set(this.buffer);
+    buffer.set(input, this.buffer.length);
+
+    const output: number[] = [];
+    for (;;) {
+      const index = Math.floor(this.position / this.up);
+      const start = index - this.halfTaps + 1;
+      if (index + this.halfTaps >= buffer.length) {
+        break;
+      }
+
+      const phase = Math.round(
+        ((this.position % this.up) * this.phases) / this.up,
+      );
+      const filter = this.filters[phase]!;
+      let sample = 0;
+      for (let j = 0; j < filter.length; j++) {
+        sample += buffer[start + j]! * filter[j]!;
+      }
+      output.push(sample);
+      this.position += this.down;
+    }
+
+    // keep the samples the next output still needs
+    const consumed = Math.max(
+      0,
+      Math.floor(this.position / this.up) - this.halfTaps + 1,
+    );
+    this.buffer = buffer.slice(consumed);
+    this.position -= consumed * this.up;
+
+    return Float32Array.from(output);
+  }
+
+  /**
+   * Drain the samples held back by the filter latency, as if the stream
+   * ended with silence.
+   */
+  flush(): Float32Array {
+    if (this.up === this.down) {
+      return new Float32Array(0);
+    }
+    // outputs at or past this position lie after the last input sample
+    const end = this.buffer.length * this.up;
+    const count = Math.max(0, Math.ceil((end - this.position) / this.down));
+    const output = this.process(new Float32Array(this.halfTaps + 1));
+    this.reset();
+    return output.slice(0, count);
+  }
+
+  /**
+   * Forget all buffered input, e.g. after a gap in the stream.
+   */
+  reset(): void {
+    // pad with silence so that the first output lines up with the first input
+    this.buffer = new Float32Array(this.halfTaps - 1);
+    this.position = (this.halfTaps - 1) * this.up;
+  }
+}
@@ -5,13 +5,24 @@ import { AnimatePresence, motion } from "framer-motion";
 import { Phone } from "lucide-react";
 import { useVoice } from "./VoiceProvider";
 import { Button } from "./ui/button";
+import type { MicErrorReason } from "./useEncoding";
+
+const MIC_ERROR_HINTS: Record<MicErrorReason, string> = {
+  not_allowed: "麦克风权限被拒绝，请在浏览器设置中允许访问麦克风",
+  not_found: "未找到麦克风，请连接麦克风后重试",
+  not_readable: "麦克风被其他应用占用，请关闭该应用后重试",
+  overconstrained: "麦克风不支持当前的采集设置",
+  insecure_context: "请通过 HTTPS 访问本页面以使用麦克风",
+  unknown: "无法打开麦克风，请稍后重试",
+};
 
 export default function StartCall() {
-  const { status, connect } = useVoice();
+  const { status, connect, isSocketUnreachable, disconnectReason, error } =
+    useVoice();
 
   return (
     <AnimatePresence>
-      {status.value !== "connected" ? (
+      {status.value !== "connected" && status.value !== "reconnecting" ? (
         <motion.div
           className={"fixed inset-0 p-4 flex items-center justify-center bg-background"}
           initial="initial"
@@ -25,6 +36,7 @@ export default function StartCall() {
         >
           <AnimatePresence>
             <motion.div
+              className={"flex flex-col items-center gap-3"}
               variants={{
                 initial: { scale: 0.5 },
                 enter: { scale: 1 },
@@ -49,6 +61,26 @@ export default function StartCall() {
                 </span>
                 <span>开始交互</span>
               </Button>
+              {isSocketUnreachable ? (
+                <p className={"text-sm text-muted-foreground"}>
+                  无法连接到服务器，请稍后重试
+                </p>
+              ) : null}
+              {error?.type === "mic_error" && error.reason ? (
+                <p className={"text-sm text-muted-foreground"}>
+                  {MIC_ERROR_HINTS[error.reason]}
+                </p>
+              ) : null}
+              {disconnectReason === "max_duration" ? (
+                <p className={"text-sm text-muted-foreground"}>
+                  通话已达到最长时长，已自动挂断
+                </p>
+              ) : null}
+              {disconnectReason === "idle_timeout" ? (
+                <p className={"text-sm text-muted-foreground"}>
+                  长时间无人说话，已自动挂断
+                </p>
+              ) : null}
             </motion.div>
           </AnimatePresence>
         </motion.div>
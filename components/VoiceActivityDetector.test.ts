@@ -0,0 +1,254 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  EnergySpeechDetector,
+  type SpeechDetector,
+  type SpeechEvent,
+  SpeechGate,
+  VoiceActivityDetector,
+  energyDb,
+} from './VoiceActivityDetector';
+
+const SAMPLE_RATE = 16000;
+// 20 ms frames
+const FRAME_SIZE = 320;
+const FRAME_MS = 20;
+
+/** A frame of a tone with the given RMS level in dBFS. */
+const tone = (frequency: number, level: number) => {
+  const amplitude = Math.SQRT2 * 10 ** (level / 20);
+  const samples = new Float32Array(FRAME_SIZE);
+  for (let i = 0; i < FRAME_SIZE; i++) {
+    samples[i] =
+      amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+  }
+  return samples;
+};
+
+/** Deterministic white noise with the given RMS level in dBFS. */
+const noise = (level: number, seed = 1) => {
+  // uniform noise in [-a, a] has an RMS of a / sqrt(3)
+  const amplitude = Math.sqrt(3) * 10 ** (level / 20);
+  let state = seed;
+  const samples = new Float32Array(FRAME_SIZE);
+  for (let i = 0; i < FRAME_SIZE; i++) {
+    state = (state * 1664525 + 1013904223) % 2 ** 32;
+    samples[i] = amplitude * ((state / 2 ** 32) * 2 - 1);
+  }
+  return samples;
+};
+
+/** A detector whose noise floor has settled on noise at `floor` dBFS. */
+const settledDetector = (floor: number) => {
+  const detector = new EnergySpeechDetector();
+  for (let i = 0; i < 20; i++) {
+    expect(detector.isSpeech(noise(floor, i + 1))).toBe(false);
+  }
+  return detector;
+};
+
+/** Stands in for a detector, classifying frames from a script. */
+const scripted = (decisions: boolean[]): SpeechDetector => {
+  let next = 0;
+  return {
+    isSpeech: () => decisions[next++] ?? false,
+    reset: () => {
+      next = 0;
+    },
+  };
+};
+
+const run = (vad: VoiceActivityDetector, frames: number) =>
+  Array.from({ length: frames }, () =>
+    vad.process(new Float32Array(FRAME_SIZE), SAMPLE_RATE),
+  );
+
+const speech = (frames: number) => Array<boolean>(frames).fill(true);
+const silence = (frames: number) => Array<boolean>(frames).fill(false);
+
+describe('energyDb', () => {
+  it('measures RMS level relative to full scale', () => {
+    expect(energyDb(new Float32Array(FRAME_SIZE).fill(0.5))).toBeCloseTo(
+      -6.02,
+      2,
+    );
+    expect(energyDb(tone(1000, -20))).toBeCloseTo(-20, 1);
+  });
+
+  it('bottoms out at -100 dBFS', () => {
+    expect(energyDb(new Float32Array(FRAME_SIZE))).toBe(-100);
+    expect(energyDb(new Float32Array(0))).toBe(-100);
+  });
+});
+
+describe('EnergySpeechDetector', () => {
+  it('takes the first frame for the noise floor', () => {
+    expect(new EnergySpeechDetector().isSpeech(tone(200, -20))).toBe(false);
+  });
+
+  it('detects a voiced tone above the noise floor', () => {
+    const detector = settledDetector(-45);
+    expect(detector.isSpeech(tone(200, -33))).toBe(true);
+  });
+
+  it('rejects white noise as loud as the tone', () => {
+    const detector = settledDetector(-45);
+    expect(detector.isSpeech(noise(-33, 99))).toBe(false);
+  });
+
+  it('accepts broadband sound well above the noise floor', () => {
+    const detector = settledDetector(-45);
+    expect(detector.isSpeech(noise(-20, 99))).toBe(true);
+  });
+
+  it('rejects a tone too little above the noise floor', () => {
+    const detector = settledDetector(-45);
+    expect(detector.isSpeech(tone(200, -40))).toBe(false);
+  });
+
+  it('rejects a tone quieter than minEnergy', () => {
+    const detector = settledDetector(-80);
+    expect(detector.isSpeech(tone(200, -55))).toBe(false);
+  });
+
+  it('follows the noise floor down immediately', () => {
+    const detector = settledDetector(-30);
+    expect(detector.isSpeech(noise(-50, 7))).toBe(false);
+    expect(detector.isSpeech(tone(200, -38))).toBe(true);
+  });
+
+  it('forgets the noise floor on reset', () => {
+    const detector = settledDetector(-45);
+    detector.reset();
+    expect(detector.isSpeech(tone(200, -33))).toBe(false);
+  });
+});
+
+describe('VoiceActivityDetector', () => {
+  const create = (decisions: boolean[]) =>
+    new VoiceActivityDetector({
+      detector: scripted(decisions),
+      minSpeechDuration: 3 * FRAME_MS,
+      hangover: 5 * FRAME_MS,
+    });
+
+  it('starts speech after minSpeechDuration of speech frames', () => {
+    const vad = create(speech(4));
+    expect(run(vad, 4)).toEqual([null, null, 'speechStart', null]);
+    expect(vad.isSpeaking).toBe(true);
+  });
+
+  it('ignores speech shorter than minSpeechDuration', () => {
+    const vad = create([...speech(2), false, ...speech(2)]);
+    expect(run(vad, 5)).toEqual([null, null, null, null, null]);
+    expect(vad.isSpeaking).toBe(false);
+  });
+
+  it('ends speech after the hangover', () => {
+    const vad = create([...speech(3), ...silence(5)]);
+    const events = run(vad, 8);
+    expect(events.slice(3)).toEqual([null, null, null, null, 'speechEnd']);
+    expect(vad.isSpeaking).toBe(false);
+  });
+
+  it('bridges pauses shorter than the hangover', () => {
+    const vad = create([
+      ...speech(3),
+      ...silence(4),
+      ...speech(1),
+      ...silence(4),
+    ]);
+    expect(run(vad, 12).filter((event) => event !== null)).toEqual([
+      'speechStart',
+    ]);
+    expect(vad.isSpeaking).toBe(true);
+  });
+
+  it('starts over on reset', () => {
+    const vad = create([...speech(3), ...speech(2)]);
+    run(vad, 3);
+    vad.reset();
+    expect(vad.isSpeaking).toBe(false);
+    // the scripted detector is reset too, and replays from the start
+    expect(run(vad, 3)).toEqual([null, null, 'speechStart']);
+  });
+});
+
+describe('SpeechGate', () => {
+  /**
+   * Pass frames 0, 1, 2, ... through a gate with the given events, returning
+   * what was sent after each.
+   */
+  const gateFrames = (
+    events: Array<SpeechEvent | null>,
+    options: { gate?: boolean; preRoll?: number } = {},
+  ) => {
+    const gate = new SpeechGate<number>();
+    let isSpeaking = false;
+    return events.map((event, frame) => {
+      if (event === 'speechStart') {
+        isSpeaking = true;
+      } else if (event === 'speechEnd') {
+        isSpeaking = false;
+      }
+      return gate.process(frame, FRAME_MS, {
+        event,
+        isSpeaking,
+        gate: options.gate ?? true,
+        preRoll: options.preRoll ?? 2 * FRAME_MS,
+      });
+    });
+  };
+
+  it('holds frames back until speech starts', () => {
+    const sent = gateFrames([null, null, null]);
+    expect(sent).toEqual([[], [], []]);
+  });
+
+  it('sends the pre-roll before the frame that started speech', () => {
+    const sent = gateFrames([null, null, null, null, 'speechStart', null]);
+    expect(sent.slice(4)).toEqual([[2, 3, 4], [5]]);
+  });
+
+  it('keeps at least preRoll milliseconds', () => {
+    const sent = gateFrames([null, null, null, null, 'speechStart'], {
+      preRoll: 50,
+    });
+    // two frames are only 40 ms
+    expect(sent[4]).toEqual([1, 2, 3, 4]);
+  });
+
+  it('sends the frame that ended speech, then holds frames back again', () => {
+    const sent = gateFrames([
+      'speechStart',
+      null,
+      'speechEnd',
+      null,
+      null,
+      'speechStart',
+    ]);
+    expect(sent).toEqual([[0], [1], [2], [], [], [3, 4, 5]]);
+  });
+
+  it('sends everything when not gating', () => {
+    const sent = gateFrames([null, 'speechStart', 'speechEnd', null], {
+      gate: false,
+    });
+    expect(sent).toEqual([[0], [1], [2], [3]]);
+  });
+
+  it('drops held frames on reset', () => {
+    const gate = new SpeechGate<number>();
+    const options = { isSpeaking: false, gate: true, preRoll: 100 };
+    gate.process(0, FRAME_MS, { ...options, event: null });
+    gate.reset();
+
+    expect(
+      gate.process(1, FRAME_MS, {
+        ...options,
+        event: 'speechStart',
+        isSpeaking: true,
+      }),
+    ).toEqual([1]);
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * Classifies a single frame of audio as speech or not. Implementations may
+ * keep state across frames, e.g. an estimate of the background noise.
+ */
+export interface SpeechDetector {
+  /**
+   * @param samples - One channel of samples in [-1, 1].
+   * @param sampleRate - Sample rate of `samples` in Hz.
+   */
+  isSpeech(samples: Float32Array, sampleRate: number): boolean;
+  reset(): void;
+}
+
+export type EnergySpeechDetectorOptions = {
+  /**
+   * @default 10
+   * @description How far above the estimated noise floor a frame must be to
+   * count as speech, in dB.
+   */
+  threshold?: number;
+  /**
+   * @default -50
+   * @description Frames quieter than this are never speech, in dBFS.
+   */
+  minEnergy?: number;
+  /**
+   * @default 0.25
+   * @description Zero crossings per sample above which a frame that is only
+   * moderately loud is taken for noise rather than voiced speech.
+   */
+  maxZeroCrossingRate?: number;
+  /**
+   * @default 0.05
+   * @description How quickly the noise floor follows non-speech frames, from
+   * 0 (never) to 1 (immediately).
+   */
+  noiseAdaptation?: number;
+};
+
+const DEFAULT_ENERGY_OPTIONS: Required<EnergySpeechDetectorOptions> = {
+  threshold: 10,
+  minEnergy: -50,
+  maxZeroCrossingRate: 0.25,
+  noiseAdaptation: 0.05,
+};
+
+// energy of digital silence, so that the logarithm stays finite
+const SILENCE_DB = -100;
+
+/**
+ * RMS level of a frame in dBFS.
+ */
+export const energyDb = (samples: Float32Array): number => {
+  if (samples.length === 0) {
+    return SILENCE_DB;
+  }
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i]! * samples[i]!;
+  }
+  const rms = Math.sqrt(sum / samples.length);
+  return rms > 0 ? Math.max(SILENCE_DB, 20 * Math.log10(rms)) : SILENCE_DB;
+};
+
+const zeroCrossingRate = (samples: Float32Array): number => {
+  let crossings = 0;
+  for (let i = 1; i < samples.length; i++) {
+    if (samples[i - 1]! >= 0 !== samples[i]! >= 0) {
+      crossings++;
+    }
+  }
+  return samples.length > 1 ? crossings / (samples.length - 1) : 0;
+};
+
+/**
+ * Detects speech by frame energy relative to an adaptive noise floor, using
+ * the zero crossing rate to reject hiss and other broadband noise that is
+ * not much louder than the floor.
+ */
+export class EnergySpeechDetector implements SpeechDetector {
+  private readonly options: Required<EnergySpeechDetectorOptions>;
+  private noiseFloor: number | null = null;
+
+  constructor(options: EnergySpeechDetectorOptions = {}) {
+    this.options = { ...DEFAULT_ENERGY_OPTIONS, ...options };
+  }
+
+  isSpeech(samples: Float32Array): boolean {
+    const { threshold, minEnergy, maxZeroCrossingRate, noiseAdaptation } =
+      this.options;
+    const energy = energyDb(samples);
+    const floor = this.noiseFloor ?? energy;
+
+    const aboveFloor = energy - floor;
+    const speech =
+      energy >= minEnergy &&
+      aboveFloor >= threshold &&
+      // voiced speech crosses zero far less often than noise, but loud
+      // unvoiced sounds such as "s" are still speech
+      (zeroCrossingRate(samples) <= maxZeroCrossingRate ||
+        aboveFloor >= 2 * threshold);
+
+    if (energy < floor) {
+      // follow the noise down immediately
+      this.noiseFloor = energy;
+    } else if (!speech) {
+      this.noiseFloor = floor + (energy - floor) * noiseAdaptation;
+    } else {
+      this.noiseFloor = floor;
+    }
+
+    return speech;
+  }
+
+  reset(): void {
+    this.noiseFloor = null;
+  }
+}
+
+export type SpeechEvent = 'speechStart' | 'speechEnd';
+
+export type VoiceActivityDetectorOptions = {
+  /**
+   * @default EnergySpeechDetector
+   * @description Classifies individual frames.
+   */
+  detector?: SpeechDetector;
+  /**
+   * @default 60
+   * @description Milliseconds of consecutive speech frames before speech is
+   * considered to have started, so that clicks are ignored.
+   */
+  minSpeechDuration?: number;
+  /**
+   * @default 300
+   * @description Milliseconds of consecutive non-speech frames before speech
+   * is considered to have ended, so that short pauses do not split it.
+   */
+  hangover?: number;
+};
+
+/**
+ * Turns per frame speech decisions into speech start and end events.
+ */
+export class VoiceActivityDetector {
+  private readonly detector: SpeechDetector;
+  private readonly minSpeechDuration: number;
+  private readonly hangover: number;
+
+  private speaking = false;
+  private speechRun = 0;
+  private silenceRun = 0;
+
+  constructor(options: VoiceActivityDetectorOptions = {}) {
+    this.detector = options.detector ?? new EnergySpeechDetector();
+    this.minSpeechDuration = options.minSpeechDuration ?? 60;
+    this.hangover = options.hangover ?? 300;
+  }
+
+  /**
+   * Whether speech has started and not yet ended.
+   */
+  get isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  /**
+   * Feed the next frame of the stream.
+   * @returns the event the frame triggered, if any
+   */
+  process(samples: Float32Array, sampleRate: number): SpeechEvent | null {
+    const duration = (samples.length / sampleRate) * 1000;
+
+    if (this.detector.isSpeech(samples, sampleRate)) {
+      this.silenceRun = 0;
+      this.speechRun += duration;
+      if (!this.speaking && this.speechRun >= this.minSpeechDuration) {
+        this.speaking = true;
+        return 'speechStart';
+      }
+      return null;
+    }
+
+    this.speechRun = 0;
+    if (this.speaking) {
+      this.silenceRun += duration;
+      if (this.silenceRun >= this.hangover) {
+        this.speaking = false;
+        this.silenceRun = 0;
+        return 'speechEnd';
+      }
+    }
+    return null;
+  }
+
+  reset(): void {
+    this.detector.reset();
+    this.speaking = false;
+    this.speechRun = 0;
+    this.silenceRun = 0;
+  }
+}
+
+/**
+ * Holds back frames outside of speech, keeping the most recent `preRoll`
+ * milliseconds of them to send when speech starts, since detection lags the
+ * start of speech.
+ */
+export class SpeechGate<T> {
+  private held: Array<{ frame: T; duration: number }> = [];
+
+  /**
+   * Pass the next frame through the gate.
+   * @param frame - The frame, as it would be sent.
+   * @param duration - Milliseconds of audio in the frame.
+   * @param event - What the detector made of the frame.
+   * @param isSpeaking - Whether speech is ongoing after the frame.
+   * @param gate - Whether to hold back frames outside of speech at all.
+   * @param preRoll - Milliseconds of held frames to keep.
+   * @returns the frames to send now, oldest first
+   */
+  process(
+    frame: T,
+    duration: number,
+    {
+      event,
+      isSpeaking,
+      gate,
+      preRoll,
+    }: {
+      event: SpeechEvent | null;
+      isSpeaking: boolean;
+      gate: boolean;
+      preRoll: number;
+    },
+  ): T[] {
+    const released: T[] = [];
+    if (event === 'speechStart') {
+      // what led up to the detection goes before the frame that tipped it
+      this.held.forEach((held) => released.push(held.frame));
+      this.held = [];
+    }
+
+    // speechEnd is only reported after the hangover, so the frame that
+    // triggers it still belongs to the utterance
+    if (!gate || isSpeaking || event === 'speechEnd') {
+      released.push(frame);
+      return released;
+    }
+
+    const held = this.held;
+    held.push({ frame, duration });
+    let total = held.reduce((sum, entry) => sum + entry.duration, 0);
+    while (held.length > 0 && total - held[0]!.duration >= preRoll) {
+      total -= held.shift()!.duration;
+    }
+    return released;
+  }
+
+  reset(): void {
+    this.held = [];
+  }
+}
@@ -14,39 +14,124 @@ import React, {
 import { ConnectionMessage } from './connection-message';
 import { noop } from './noop';
 import { useCallDuration } from './useCallDuration';
-import { useEncoding } from './useEncoding';
+import {
+  type AudioCaptureConstraints,
+  checkForAudioTracks,
+  DEFAULT_CAPTURE_CONSTRAINTS,
+  getAudioStream,
+  getMicErrorReason,
+  type MicErrorReason,
+  useEncoding,
+} from './useEncoding';
+import { useMediaDevices } from './useMediaDevices';
 import { useMessages } from './useMessages';
 import { useMicrophone } from './useMicrophone';
+import { useVoiceActivity } from './useVoiceActivity';
+import type { SpeechDetector } from './VoiceActivityDetector';
+import { BargeInDetector } from './BargeInDetector';
+import { type EchoEstimate, EchoDetector } from './EchoDetector';
+import { Resampler } from './Resampler';
+import {
+  type SessionLimitReason,
+  type SessionLimitWarning,
+  useSessionLimits,
+} from './useSessionLimits';
+import type { PlaybackMetrics } from './PlaybackScheduler';
 import { useSoundPlayer } from './useSoundPlayer';
 import { ChatSocket } from './ChatSocket';
+import { isSocketRetriesExhaustedError } from './errors';
+import { type AudioEncoder, getAudioConfiguration } from './audio-encoder';
+import type { AudioConfiguration } from './types/AudioConfiguration';
+import { clearChatGroupId, loadChatGroupId, saveChatGroupId } from './chatGroupStorage';
 import {
+  type ConnectOptions,
   SocketConfig,
   useVoiceClient,
+  type VoiceClientMessage,
   type VoiceReadyState,
 } from './useVoiceClient';
 
 type VoiceError =
   | { type: 'socket_error'; message: string; error?: Error }
+  /** The server could not be reached within `maxRetries` attempts. */
+  | { type: 'socket_unreachable'; message: string; error?: Error }
   | { type: 'audio_error'; message: string; error?: Error }
-  | { type: 'mic_error'; message: string; error?: Error };
+  | {
+      type: 'mic_error';
+      message: string;
+      /** Set when the microphone could not be opened. */
+      reason?: MicErrorReason;
+      error?: Error;
+    };
+
+const MIC_ERROR_MESSAGES: Record<MicErrorReason, string> = {
+  not_allowed: 'Microphone permission denied',
+  not_found: 'No microphone was found',
+  not_readable: 'The microphone is in use by another application',
+  overconstrained: 'No microphone supports the capture constraints',
+  insecure_context: 'Microphone access requires a secure (HTTPS) connection',
+  unknown: 'The microphone could not be opened',
+};
+
+const toMicError = (reason: MicErrorReason, error?: Error): VoiceError => ({
+  type: 'mic_error',
+  message: MIC_ERROR_MESSAGES[reason],
+  reason,
+  error,
+});
+
+/**
+ * Why the call was ended. `error` keeps the error status instead of resetting
+ * it to `disconnected`.
+ */
+export type DisconnectReason = 'user' | 'error' | SessionLimitReason;
+
+/**
+ * `open` streams the microphone for the whole call; `pushToTalk` only while
+ * `startTalking` has been called and `stopTalking` has not.
+ */
+export type InputMode = 'open' | 'pushToTalk';
+
+/**
+ * `full` sends microphone audio while the assistant is speaking; `half` holds
+ * it back so that the assistant does not hear itself on setups without echo
+ * cancellation; `auto` picks `half` when the microphone has no echo
+ * cancellation or echo is detected during the call.
+ */
+export type DuplexMode = 'full' | 'half' | 'auto';
 
 type VoiceStatus =
   | {
       value: 'disconnected' | 'connecting' | 'connected';
       reason?: never;
     }
+  | {
+      value: 'reconnecting';
+      /** The connection attempt currently in progress, starting at 1. */
+      attempt: number;
+      reason?: never;
+    }
   | {
       value: 'error';
       reason: string;
     };
 
 export type VoiceContextType = {
-  connect: () => Promise<void>;
-  disconnect: () => void;
+  connect: (options?: ConnectOptions) => Promise<void>;
+  disconnect: (reason?: DisconnectReason) => void;
+  /** Why the last call ended, or `null` before the first call has ended. */
+  disconnectReason: DisconnectReason | null;
+  /** Forget the stored chat group so that the next `connect` starts a new chat. */
+  clearChatGroup: () => void;
   fft: number[];
   isMuted: boolean;
   isAudioMuted: boolean;
   isPlaying: boolean;
+  /**
+   * Gaps and buffering in the assistant's audio during the current call, or
+   * `null` when not connected. Read on demand; it does not cause re-renders.
+   */
+  getPlaybackMetrics: () => PlaybackMetrics | null;
   messages: (
     | JsonMessage
     | ConnectionMessage
@@ -62,6 +147,50 @@ export type VoiceContextType = {
   muteAudio: () => void;
   unmuteAudio: () => void;
   readyState: VoiceReadyState;
+  /** Smoothed heartbeat round trip time in milliseconds, when a heartbeat is configured. */
+  roundTripTime: number | null;
+  /** Number of microphone audio frames dropped during the current call. */
+  droppedAudioFrames: number;
+  /** Whether voice activity detection currently hears the user speaking. */
+  isUserSpeaking: boolean;
+  inputMode: InputMode;
+  /** Whether the talk button is held, in push-to-talk mode. */
+  isTalking: boolean;
+  /** Start sending microphone audio, in push-to-talk mode. */
+  startTalking: () => void;
+  /** Stop sending microphone audio and mark the end of the utterance. */
+  stopTalking: () => void;
+  duplexMode: DuplexMode;
+  /** The latest estimate of how much playback leaks into the microphone. */
+  echoEstimate: EchoEstimate | null;
+  /** Whether significant echo has been detected during the call. */
+  isEchoDetected: boolean;
+  /** Available microphones. Labels are empty until access is granted. */
+  inputDevices: MediaDeviceInfo[];
+  /** Microphone permission, kept current through the Permissions API where available. */
+  micPermission: 'prompt' | 'granted' | 'denied';
+  /** The chosen microphone, or `null` for the system default. */
+  selectedInputDeviceId: string | null;
+  /**
+   * Choose a microphone, or `null` for the system default. During a call the
+   * new device takes over without reconnecting; if it cannot be opened, the
+   * promise rejects, the failure is passed to `onError` without ending the
+   * call, and the old device stays in use.
+   */
+  selectInputDevice: (deviceId: string | null) => Promise<void>;
+  /** Available speakers and headsets for the assistant's voice. */
+  outputDevices: MediaDeviceInfo[];
+  /** The chosen output device, or `null` for the system default. */
+  selectedOutputDeviceId: string | null;
+  /**
+   * Choose where the assistant's voice plays, or `null` for the system
+   * default. Playback moves over without interrupting the clip queue; if it
+   * cannot, the promise rejects, the failure is passed to `onError` without
+   * ending the call, and playback stays where it was.
+   */
+  selectOutputDevice: (deviceId: string | null) => Promise<void>;
+  /** Whether microphone audio is held back while the assistant speaks. */
+  isHalfDuplex: boolean;
   sendUserInput: (text: string) => void;
   sendAssistantInput: (text: string) => void;
   sendSessionSettings: ChatSocket['sendSessionSettings'];
@@ -74,18 +203,43 @@ export type VoiceContextType = {
   isError: boolean;
   isMicrophoneError: boolean;
   isSocketError: boolean;
+  isSocketUnreachable: boolean;
   callDurationTimestamp: string | null;
   chatMetadata: ChatMetadata | null;
 };
 
+// audio from before speech is detected that is sent when `sendSilence` is off
+const SPEECH_PRE_ROLL_MS = 300;
+
+// how long ducked audio waits for the server to confirm an interruption
+const BARGE_IN_CONFIRMATION_MS = 1500;
+
+// analyses in a row that must show echo before it counts as detected
+const ECHO_DETECTION_STREAK = 2;
+
 const VoiceContext = createContext<VoiceContextType | null>(null);
 
 export type VoiceProviderProps = PropsWithChildren<SocketConfig> & {
   sessionSettings?: SessionSettings;
   onMessage?: (message: any) => void;
+  /**
+   * @description Called with errors that end the call, and with failures to
+   * switch devices during a call, which leave the call running.
+   */
   onError?: (err: VoiceError) => void;
+  /**
+   * @description Called with an inbound message that could not be parsed,
+   * e.g. one of a type this client does not know. The message is dropped
+   * and the call carries on.
+   */
+  onParseError?: (error: Error) => void;
   onOpen?: () => void;
   onClose?: () => void;
+  /**
+   * @description Called when the connection is restored after a drop. The
+   * `sessionSettings` are sent again before this is called.
+   */
+  onReconnect?: () => void;
   /**
    * @default true
    * @description Clear messages when the voice is disconnected.
@@ -96,6 +250,120 @@ export type VoiceProviderProps = PropsWithChildren<SocketConfig> & {
    * @description The maximum number of messages to keep in memory.
    */
   messageHistoryLimit?: number;
+  /**
+   * @default 'fx-chat-group-id'
+   * @description localStorage key under which the last chat group id is kept,
+   * so that `connect` resumes the same conversation after a page reload.
+   * Set to `null` to disable.
+   */
+  chatGroupStorageKey?: string | null;
+  /**
+   * @description Encodes microphone audio. Defaults to the built-in encoder
+   * for `sessionSettings.audio.encoding`, which is `linear16` unless set.
+   * A custom encoder's `encoding` is declared to the server in its place.
+   */
+  audioEncoder?: AudioEncoder;
+  /**
+   * @description The longest a call may last, in milliseconds, after which
+   * it is disconnected with the reason `max_duration`. Unlimited if unset.
+   */
+  maxCallDuration?: number;
+  /**
+   * @description How long a call may go without speech from either side, in
+   * milliseconds, before it is disconnected with the reason `idle_timeout`.
+   * Unlimited if unset.
+   */
+  idleTimeout?: number;
+  /**
+   * @default 30000
+   * @description How long before `maxCallDuration` or `idleTimeout` is
+   * reached to call `onSessionLimitWarning`, in milliseconds.
+   */
+  sessionLimitWarningTime?: number;
+  /**
+   * @description Called once before a session limit ends the call, so the
+   * user can be told. Activity in the meantime cancels an idle timeout.
+   */
+  onSessionLimitWarning?: (warning: SessionLimitWarning) => void;
+  /**
+   * @description Classifies microphone frames as speech or not. Defaults to
+   * an energy and zero crossing rate detector.
+   */
+  speechDetector?: SpeechDetector;
+  /**
+   * @default 300
+   * @description Milliseconds of silence before the user is considered to
+   * have stopped speaking.
+   */
+  speechHangover?: number;
+  /**
+   * @default true
+   * @description Send microphone audio while the user is not speaking. Set
+   * to `false` to save bandwidth; a short stretch of audio from before
+   * speech is detected is still sent with it.
+   */
+  sendSilence?: boolean;
+  onSpeechStart?: () => void;
+  onSpeechEnd?: () => void;
+  /**
+   * @default 'open'
+   * @description In `pushToTalk` mode microphone audio is only sent between
+   * `startTalking` and `stopTalking`, e.g. while a button is held.
+   */
+  inputMode?: InputMode;
+  /**
+   * @default 'clear'
+   * @description What to do with the assistant's audio when the user talks
+   * over it: `clear` stops it and drops the rest of the queue, `duck` lowers
+   * its volume until the server confirms the interruption with a user
+   * message, and `off` leaves it playing. Either of the first two also adds
+   * a `user_interruption` message and tells the server.
+   */
+  bargeIn?: 'clear' | 'duck' | 'off';
+  /**
+   * @default 0.5
+   * @description From 0 to 1, how readily the user interrupts the assistant.
+   * Lower it if the assistant's voice coming back through the speakers
+   * interrupts itself.
+   */
+  bargeInSensitivity?: number;
+  /**
+   * @default 'full'
+   * @description Whether to keep sending microphone audio while the
+   * assistant speaks. In half duplex the user cannot interrupt.
+   */
+  duplexMode?: DuplexMode;
+  /**
+   * @default 300
+   * @description Milliseconds after the assistant stops speaking before
+   * microphone audio is sent again in half duplex, to let the echo of the
+   * room die down.
+   */
+  halfDuplexTailDelay?: number;
+  /**
+   * @default true
+   * @description Compare the assistant's audio with the microphone to
+   * detect echo, e.g. from laptop speakers without headphones.
+   */
+  echoDetection?: boolean;
+  /**
+   * @description Called once per call when significant echo is detected.
+   * In `auto` duplex mode the call also switches to half duplex.
+   */
+  onEchoDetected?: (estimate: EchoEstimate) => void;
+  /**
+   * @default { echoCancellation: true, noiseSuppression: true, autoGainControl: true }
+   * @description Processing to ask the browser to apply to the microphone.
+   * Set keys are merged over the defaults.
+   */
+  captureConstraints?: AudioCaptureConstraints;
+  /**
+   * @default 100
+   * @description Milliseconds of the assistant's audio to buffer before it
+   * starts playing, and again whenever it runs dry. Raise it on unreliable
+   * networks to trade latency for fewer gaps.
+   */
+  jitterBufferTarget?: number;
 };
 
 export const useVoice = () => {
@@ -110,6 +378,17 @@ export const VoiceProvider: FC<VoiceProviderProps> = ({
   children,
   clearMessagesOnDisconnect = true,
   messageHistoryLimit = 100,
+  chatGroupStorageKey = 'fx-chat-group-id',
+  sessionLimitWarningTime = 30000,
+  speechHangover = 300,
+  sendSilence = true,
+  inputMode = 'open',
+  bargeIn = 'clear',
+  bargeInSensitivity = 0.5,
+  duplexMode = 'full',
+  halfDuplexTailDelay = 300,
+  echoDetection = true,
+  jitterBufferTarget = 100,
   sessionSettings,
   ...props
 }) => {
@@ -122,12 +401,15 @@ export const VoiceProvider: FC<VoiceProviderProps> = ({
   const [status, setStatus] = useState<VoiceStatus>({
     value: 'disconnected',
   });
+  const [disconnectReason, setDisconnectReason] =
+    useState<DisconnectReason | null>(null);
 
   // error handling
   const [error, setError] = useState<VoiceError | null>(null);
   const isError = error !== null;
   const isMicrophoneError = error?.type === 'mic_error';
   const isSocketError = error?.type === 'socket_error';
+  const isSocketUnreachable = error?.type === 'socket_unreachable';
   const isAudioError = error?.type === 'audio_error';
 
   const onError = useRef(props.onError ?? noop);
@@ -136,6 +418,30 @@ export const VoiceProvider: FC<VoiceProviderProps> = ({
   const onClose = useRef(props.onClose ?? noop);
   onClose.current = props.onClose ?? noop;
 
+  const onReconnect = useRef(props.onReconnect ?? noop);
+  onReconnect.current = props.onReconnect ?? noop;
+
+  const onEchoDetected = useRef(props.onEchoDetected);
+  onEchoDetected.current = props.onEchoDetected;
+
+  const audioConfiguration = useMemo<AudioConfiguration>(
+    () => getAudioConfiguration(sessionSettings?.audio, props.audioEncoder),
+    [sessionSettings?.audio, props.audioEncoder],
+  );
+
+  // the first session settings of every connection declare the audio format,
+  // so that the server decodes the microphone audio correctly
+  const sessionSettingsRef = useRef<SessionSettings>({
+    type: 'session_settings',
+    ...sessionSettings,
+    audio: audioConfiguration,
+  });
+  sessionSettingsRef.current = {
+    type: 'session_settings',
+    ...sessionSettings,
+    audio: audioConfiguration,
+  };
+
   const messageStore = useMessages({
     sendMessageToParent: props.onMessage,
     messageHistoryLimit,
@@ -148,75 +454,317 @@ export const VoiceProvider: FC<VoiceProviderProps> = ({
     }
   }, []);
 
+  const {
+    start: startSessionLimits,
+    stop: stopSessionLimits,
+    recordActivity,
+    setActive: setSessionActive,
+  } = useSessionLimits({
+    maxDuration: props.maxCallDuration,
+    idleTimeout: props.idleTimeout,
+    warningTime: sessionLimitWarningTime,
+    onWarning: (warning) => {
+      props.onSessionLimitWarning?.(warning);
+    },
+    onLimit: (reason) => {
+      disconnect(reason);
+    },
+  });
+
   const onClientError: NonNullable<
     Parameters<typeof useVoiceClient>[0]['onError']
   > = useCallback(
     (message, err) => {
       stopTimer();
+      stopSessionLimits();
+      if (isSocketRetriesExhaustedError(err)) {
+        updateError({
+          type: 'socket_unreachable',
+          message: 'We could not reach the voice server.',
+          error: err,
+        });
+        return;
+      }
       updateError({ type: 'socket_error', message, error: err });
     },
-    [stopTimer, updateError],
+    [stopTimer, stopSessionLimits, updateError],
   );
 
   const config = props;
 
+  const echoDetector = useMemo(
+    () => new EchoDetector(audioConfiguration.sampleRate),
+    [audioConfiguration.sampleRate],
+  );
+  const [echoEstimate, setEchoEstimate] = useState<EchoEstimate | null>(null);
+  const [isEchoDetected, setIsEchoDetected] = useState(false);
+  const isEchoDetectedRef = useRef(false);
+  // consecutive analyses with significant echo, so one fluke does not count
+  const echoStreak = useRef(0);
+
+  // one per playback rate, carried across the clips of a stream so that it
+  // is resampled as one, and dropped whenever playback stops
+  const playbackResamplers = useRef(new Map<number, Resampler>());
+
   const player = useSoundPlayer({
+    jitterBufferTarget,
     onError: (message) => {
       updateError({ type: 'audio_error', message });
     },
     onPlayAudio: (id: string) => {
       messageStore.onPlayAudio(id);
     },
+    onPlayClip: (buffer, startedAt) => {
+      if (!echoDetection) {
+        return;
+      }
+      // compare at the rate the microphone audio is converted to
+      let samples = buffer.getChannelData(0);
+      let start = startedAt;
+      if (buffer.sampleRate !== echoDetector.sampleRate) {
+        let resampler = playbackResamplers.current.get(buffer.sampleRate);
+        if (!resampler || resampler.outputRate !== echoDetector.sampleRate) {
+          resampler = new Resampler(buffer.sampleRate, echoDetector.sampleRate);
+          playbackResamplers.current.set(buffer.sampleRate, resampler);
+        }
+        samples = resampler.process(samples);
+        start -= (resampler.latency / buffer.sampleRate) * 1000;
+      }
+      echoDetector.addPlayback(samples, start);
+    },
   });
 
   const { streamRef, getStream, permission: micPermission } = useEncoding();
 
+  const captureConstraints = useMemo<AudioCaptureConstraints>(
+    () => ({ ...DEFAULT_CAPTURE_CONSTRAINTS, ...props.captureConstraints }),
+    [props.captureConstraints],
+  );
+
+  const { devices: inputDevices, refresh: refreshInputDevices } =
+    useMediaDevices('audioinput');
+  const [selectedInputDeviceId, setSelectedInputDeviceId] = useState<
+    string | null
+  >(null);
+  const selectedInputDeviceIdRef = useRef<string | null>(null);
+
+  const { devices: outputDevices, refresh: refreshOutputDevices } =
+    useMediaDevices('audiooutput');
+  const [selectedOutputDeviceId, setSelectedOutputDeviceId] = useState<
+    string | null
+  >(null);
+
   const client = useVoiceClient({
     onAudioMessage: (message: AudioOutput) => {
+      recordActivity();
+      messageStore.onAudioOutput(message);
       player.addToQueue(message);
     },
     onMessage: useCallback(
-      (message: JsonMessage & { receivedAt: Date } | AssistantMessage | UserMessage) => {
+      (message: VoiceClientMessage & { receivedAt: Date }) => {
         // store message
         messageStore.onMessage(message);
 
+        if (message.type === 'chat_metadata' && chatGroupStorageKey !== null) {
+          saveChatGroupId(chatGroupStorageKey, message.chatGroupId);
+        }
+
         if (
-          message.type === 'user_message'
+          message.type === 'user_message' ||
+          message.type === 'assistant_message' ||
+          message.type === 'assistant_text_delta'
+        ) {
+          recordActivity();
+        }
+
+        if (
+          message.type === 'user_message' ||
+          message.type === 'user_interruption'
         ) {
           player.clearQueue();
+          playbackResamplers.current.clear();
+          messageStore.onClearAudio();
         }
 
       },
-      [messageStore, player],
+      [messageStore, player, chatGroupStorageKey, recordActivity],
     ),
     onError: onClientError,
+    onParseError: (error) => {
+      props.onParseError?.(error);
+    },
     onOpen: useCallback(() => {
       startTimer();
+      startSessionLimits();
       messageStore.createConnectMessage();
       props.onOpen?.();
-    }, [messageStore, props, startTimer]),
+    }, [messageStore, props, startSessionLimits, startTimer]),
     onClose: useCallback<
       NonNullable<any>
     >(
       (event: Event) => {
         stopTimer();
+        stopSessionLimits();
         messageStore.createDisconnectMessage();
         onClose.current?.();
       },
-      [messageStore, stopTimer],
+      [messageStore, stopSessionLimits, stopTimer],
     ),
+    onReconnecting: (attempt: number) => {
+      setStatus({ value: 'reconnecting', attempt });
+    },
+    onReconnect: () => {
+      // the server does not keep session settings across connections
+      client.sendSessionSettings(sessionSettingsRef.current);
+      setStatus({ value: 'connected' });
+      onReconnect.current?.();
+    },
   });
 
-  const mic = useMicrophone({
-    streamRef,
-    onAudioCaptured: useCallback((arrayBuffer) => {
+  const bargeInDetector = useMemo(
+    () => new BargeInDetector({ sensitivity: bargeInSensitivity }),
+    [bargeInSensitivity],
+  );
+
+  const isPlayingRef = useRef(player.isPlaying);
+  isPlayingRef.current = player.isPlaying;
+
+  // whether the microphone reported echo cancellation when the call started
+  const [hasEchoCancellation, setHasEchoCancellation] = useState<
+    boolean | null
+  >(null);
+  const isHalfDuplex =
+    duplexMode === 'half' ||
+    (duplexMode === 'auto' &&
+      (hasEchoCancellation === false || isEchoDetected));
+  const isHalfDuplexRef = useRef(isHalfDuplex);
+  isHalfDuplexRef.current = isHalfDuplex;
+
+  // held back in half duplex while the assistant speaks, and a little after
+  const isPlaybackHoldingMic = useRef(false);
+
+  const unduckTimeout = useRef<number | null>(null);
+
+  const cancelUnduck = useCallback(() => {
+    if (unduckTimeout.current !== null) {
+      window.clearTimeout(unduckTimeout.current);
+      unduckTimeout.current = null;
+    }
+  }, []);
+
+  const interruptAssistant = useCallback(() => {
+    cancelUnduck();
+    if (bargeIn === 'clear') {
+      player.clearQueue();
+      playbackResamplers.current.clear();
+      messageStore.onClearAudio();
+    } else {
+      player.duck(true);
+    }
+
+    const interruption: UserInterruption = {
+      type: 'user_interruption',
+      time: Date.now(),
+    };
+    messageStore.onMessage(interruption);
+    client.sendUserInterruption(interruption.time);
+  }, [bargeIn, cancelUnduck, client, messageStore, player]);
+
+  const detectEcho = useCallback(
+    (samples: Float32Array, capturedAt: number) => {
+      echoDetector.addCapture(samples, capturedAt);
+      const estimate = echoDetector.analyze();
+      if (estimate === null) {
+        return;
+      }
+      setEchoEstimate(estimate);
+
+      echoStreak.current = echoDetector.isSignificant(estimate)
+        ? echoStreak.current + 1
+        : 0;
+      if (
+        echoStreak.current >= ECHO_DETECTION_STREAK &&
+        !isEchoDetectedRef.current
+      ) {
+        isEchoDetectedRef.current = true;
+        setIsEchoDetected(true);
+        onEchoDetected.current?.(estimate);
+      }
+    },
+    [echoDetector],
+  );
+
+  const [isTalking, setIsTalking] = useState(false);
+  const isTalkingRef = useRef(false);
+
+  const isSendingAudio = useRef(true);
+  isSendingAudio.current = inputMode === 'open' || isTalking;
+
+  const {
+    isSpeaking: isUserSpeaking,
+    processAudio,
+    reset: resetVoiceActivity,
+  } = useVoiceActivity({
+    detector: props.speechDetector,
+    hangover: speechHangover,
+    gateSilence: !sendSilence,
+    preRoll: SPEECH_PRE_ROLL_MS,
+    sendAudio: (arrayBuffer, info) => {
+      if (
+        !isSendingAudio.current ||
+        (isHalfDuplexRef.current && isPlaybackHoldingMic.current)
+      ) {
+        return;
+      }
       try {
-        client.sendAudio(arrayBuffer);
+        client.sendAudio(arrayBuffer, info);
       } catch (e) {
         const message = e instanceof Error ? e.message : 'Unknown error';
         updateError({ type: 'socket_error', message });
       }
-    }, []),
+    },
+    onSpeechStart: () => {
+      recordActivity();
+      props.onSpeechStart?.();
+    },
+    onSpeechEnd: () => {
+      recordActivity();
+      if (bargeIn === 'duck') {
+        // unless a user message clears the queue first, it was a false alarm
+        cancelUnduck();
+        unduckTimeout.current = window.setTimeout(() => {
+          unduckTimeout.current = null;
+          player.duck(false);
+        }, BARGE_IN_CONFIRMATION_MS);
+      }
+      bargeInDetector.reset();
+      props.onSpeechEnd?.();
+    },
+    onFrame: (samples, info) => {
+      if (echoDetection) {
+        detectEcho(samples, info.capturedAt);
+      }
+      if (
+        bargeIn === 'off' ||
+        // the assistant's own voice would interrupt it
+        isHalfDuplexRef.current ||
+        !isPlayingRef.current ||
+        !isSendingAudio.current
+      ) {
+        bargeInDetector.reset();
+        return;
+      }
+      if (bargeInDetector.process(samples, info.sampleRate)) {
+        interruptAssistant();
+      }
+    },
+  });
+
+  const mic = useMicrophone({
+    streamRef,
+    audioConfiguration,
+    encoder: props.audioEncoder,
+    onAudioCaptured: processAudio,
     onError: useCallback(
       (message) => {
         updateError({ type: 'mic_error', message });
@@ -225,38 +773,68 @@ export const VoiceProvider: FC<VoiceProviderProps> = ({
     ),
   });
 
-  const connect = useCallback(async () => {
+  const connect = useCallback(async (options: ConnectOptions = {}) => {
     updateError(null);
+    setDisconnectReason(null);
+    echoDetector.reset();
+    echoStreak.current = 0;
+    isEchoDetectedRef.current = false;
+    setIsEchoDetected(false);
+    setEchoEstimate(null);
     setStatus({ value: 'connecting' });
-    const permission = await getStream();
+    let result = await getStream(
+      captureConstraints,
+      selectedInputDeviceIdRef.current ?? undefined,
+    );
+    if (
+      !result.success &&
+      result.reason === 'not_found' &&
+      selectedInputDeviceIdRef.current !== null
+    ) {
+      // the chosen device may have been unplugged since
+      result = await getStream(captureConstraints);
+    }
 
-    if (permission === 'denied') {
-      const error: VoiceError = {
-        type: 'mic_error',
-        message: 'Microphone permission denied',
-      };
+    if (!result.success) {
+      const error = toMicError(result.reason, result.error);
       updateError(error);
       return Promise.reject(error);
     }
 
+    const track = streamRef.current?.getAudioTracks()[0];
+    setHasEchoCancellation(track?.getSettings().echoCancellation ?? false);
+    // labels are only listed once access has been granted
+    void refreshInputDevices();
+    void refreshOutputDevices();
+
     try {
       await client
-        .connect({
-          ...config,
-        })
+        .connect(
+          {
+            ...config,
+          },
+          {
+            resumeChatGroupId:
+              options.resumeChatGroupId ??
+              (chatGroupStorageKey !== null
+                ? loadChatGroupId(chatGroupStorageKey)
+                : undefined),
+          },
+        )
         .then(() => {
-          if (
-            sessionSettings !== undefined &&
-            Object.keys(sessionSettings).length > 0
-          ) {
-            client.sendSessionSettings(sessionSettings);
-          }
+          client.sendSessionSettings(sessionSettingsRef.current);
         });
     } catch (e) {
-      const error: VoiceError = {
-        type: 'socket_error',
-        message: 'We could not connect to the voice. Please try again.',
-      };
+      const error: VoiceError = isSocketRetriesExhaustedError(e)
+        ? {
+            type: 'socket_unreachable',
+            message: 'We could not reach the voice server.',
+            error: e,
+          }
+        : {
+            type: 'socket_error',
+            message: 'We could not connect to the voice. Please try again.',
+          };
       updateError(error);
       return Promise.reject(error);
     }
@@ -283,12 +861,170 @@ export const VoiceProvider: FC<VoiceProviderProps> = ({
       };
       updateError(error);
     }
-  }, [client, config, getStream, mic, player, sessionSettings, updateError]);
+  }, [
+    client,
+    config,
+    getStream,
+    streamRef,
+    mic,
+    player,
+    updateError,
+    chatGroupStorageKey,
+    echoDetector,
+    refreshInputDevices,
+    refreshOutputDevices,
+    captureConstraints,
+  ]);
+
+  const isInCall =
+    status.value === 'connected' || status.value === 'reconnecting';
+
+  const { replaceStream } = mic;
+  const isSwitchingInput = useRef(false);
+
+  const switchInputStream = useCallback(
+    async (deviceId: string | null) => {
+      isSwitchingInput.current = true;
+      try {
+        const stream = await getAudioStream(
+          captureConstraints,
+          deviceId ?? undefined,
+        );
+        try {
+          checkForAudioTracks(stream);
+        } catch (e) {
+          stream.getTracks().forEach((track) => track.stop());
+          throw e;
+        }
+        replaceStream(stream);
+        const track = stream.getAudioTracks()[0];
+        setHasEchoCancellation(track?.getSettings().echoCancellation ?? false);
+      } finally {
+        isSwitchingInput.current = false;
+      }
+    },
+    [replaceStream, captureConstraints],
+  );
+
+  const selectInputDevice = useCallback(
+    async (deviceId: string | null) => {
+      if (isInCall) {
+        try {
+          await switchInputStream(deviceId);
+        } catch (e) {
+          // the call carries on with the old device, so only report it
+          onError.current(
+            toMicError(
+              getMicErrorReason(e),
+              e instanceof Error ? e : undefined,
+            ),
+          );
+          throw e;
+        }
+      }
+      selectedInputDeviceIdRef.current = deviceId;
+      setSelectedInputDeviceId(deviceId);
+    },
+    [isInCall, switchInputStream],
+  );
+
+  useEffect(() => {
+    // follow devices being unplugged and plugged back in during a call
+    if (!isInCall || inputDevices.length === 0 || isSwitchingInput.current) {
+      return;
+    }
+    const isAvailable = (deviceId: string | null | undefined) =>
+      inputDevices.some((device) => device.deviceId === deviceId);
+
+    const track = streamRef.current?.getAudioTracks()[0];
+    const currentId =
+      track?.readyState === 'live' ? track.getSettings().deviceId : undefined;
+    const selectedId = selectedInputDeviceIdRef.current;
+
+    let next: string | null | undefined;
+    if (selectedId !== null && isAvailable(selectedId)) {
+      next = currentId === selectedId ? undefined : selectedId;
+    } else if (!isAvailable(currentId)) {
+      next = null;
+    }
+    if (next === undefined) {
+      return;
+    }
+    switchInputStream(next).catch((e: unknown) => {
+      updateError(
+        toMicError(
+          getMicErrorReason(e),
+          e instanceof Error ? e : undefined,
+        ),
+      );
+    });
+  }, [inputDevices, isInCall, streamRef, switchInputStream, updateError]);
+
+  const { selectOutputDevice: selectPlayerOutputDevice } = player;
+
+  const selectOutputDevice = useCallback(
+    async (deviceId: string | null) => {
+      try {
+        await selectPlayerOutputDevice(deviceId);
+      } catch (e) {
+        // playback carries on where it was, so only report it
+        onError.current({
+          type: 'audio_error',
+          message:
+            e instanceof Error
+              ? `Failed to select output device: ${e.message}`
+              : 'Failed to select output device',
+          error: e instanceof Error ? e : undefined,
+        });
+        throw e;
+      }
+      setSelectedOutputDeviceId(deviceId);
+    },
+    [selectPlayerOutputDevice],
+  );
+
+  useEffect(() => {
+    // access can be revoked from the browser's site settings mid call
+    if (isInCall && micPermission === 'denied') {
+      updateError(toMicError('not_allowed'));
+    }
+  }, [isInCall, micPermission, updateError]);
+
+  const startTalking = useCallback(() => {
+    isTalkingRef.current = true;
+    // start sending right away rather than after the next render
+    isSendingAudio.current = true;
+    setIsTalking(true);
+  }, []);
+
+  const stopTalking = useCallback(() => {
+    if (!isTalkingRef.current) {
+      return;
+    }
+    isTalkingRef.current = false;
+    isSendingAudio.current = inputMode === 'open';
+    setIsTalking(false);
+    if (inputMode === 'pushToTalk') {
+      client.sendEndOfUtterance();
+    }
+  }, [client, inputMode]);
+
+  const clearChatGroup = useCallback(() => {
+    if (chatGroupStorageKey !== null) {
+      clearChatGroupId(chatGroupStorageKey);
+    }
+  }, [chatGroupStorageKey]);
 
   const disconnectFromVoice = useCallback(() => {
     client.disconnect();
     player.stopAll();
+    playbackResamplers.current.clear();
+    messageStore.onClearAudio();
     mic.stop();
+    resetVoiceActivity();
+    cancelUnduck();
+    isTalkingRef.current = false;
+    setIsTalking(false);
     if (clearMessagesOnDisconnect) {
       messageStore.clearMessages();
     }
@@ -296,29 +1032,64 @@ export const VoiceProvider: FC<VoiceProviderProps> = ({
     client,
     player,
     mic,
+    resetVoiceActivity,
+    cancelUnduck,
     clearMessagesOnDisconnect,
     messageStore,
   ]);
 
   const disconnect = useCallback(
-    (disconnectOnError?: boolean) => {
+    (reason: DisconnectReason = 'user') => {
       if (micPermission === 'denied') {
         setStatus({ value: 'error', reason: 'Microphone permission denied' });
       }
 
       stopTimer();
+      stopSessionLimits();
+      setDisconnectReason(reason);
 
       disconnectFromVoice();
 
-      if (status.value !== 'error' && !disconnectOnError) {
+      if (status.value !== 'error' && reason !== 'error') {
         // if status was 'error', keep the error status so we can show the error message to the end user.
         // otherwise, set status to 'disconnected'
         setStatus({ value: 'disconnected' });
       }
     },
-    [micPermission, stopTimer, disconnectFromVoice, status.value],
+    [
+      micPermission,
+      stopTimer,
+      stopSessionLimits,
+      disconnectFromVoice,
+      status.value,
+    ],
   );
 
+  useEffect(() => {
+    // the assistant speaking counts as activity for as long as it lasts
+    setSessionActive(player.isPlaying);
+  }, [player.isPlaying, setSessionActive]);
+
+  useEffect(() => {
+    if (!player.isPlaying) {
+      // the next clip starts a new stream
+      playbackResamplers.current.clear();
+    }
+  }, [player.isPlaying]);
+
+  useEffect(() => {
+    if (player.isPlaying) {
+      isPlaybackHoldingMic.current = true;
+      return;
+    }
+    const timeout = window.setTimeout(() => {
+      isPlaybackHoldingMic.current = false;
+    }, halfDuplexTailDelay);
+    return () => {
+      window.clearTimeout(timeout);
+    };
+  }, [player.isPlaying, halfDuplexTailDelay]);
+
   useEffect(() => {
     if (
       error !== null &&
@@ -344,11 +1115,14 @@ export const VoiceProvider: FC<VoiceProviderProps> = ({
       ({
         connect,
         disconnect,
+        disconnectReason,
+        clearChatGroup,
         fft: player.fft,
         micFft: mic.fft,
         isMuted: mic.isMuted,
         isAudioMuted: player.isAudioMuted,
         isPlaying: player.isPlaying,
+        getPlaybackMetrics: player.getPlaybackMetrics,
         messages: messageStore.messages,
         lastVoiceMessage: messageStore.lastVoiceMessage,
         lastUserMessage: messageStore.lastUserMessage,
@@ -356,6 +1130,24 @@ export const VoiceProvider: FC<VoiceProviderProps> = ({
         mute: mic.mute,
         muteAudio: player.muteAudio,
         readyState: client.readyState,
+        roundTripTime: client.roundTripTime,
+        droppedAudioFrames: client.droppedAudioFrames,
+        isUserSpeaking,
+        inputMode,
+        isTalking,
+        startTalking,
+        stopTalking,
+        duplexMode,
+        isHalfDuplex,
+        echoEstimate,
+        isEchoDetected,
+        inputDevices,
+        micPermission,
+        selectedInputDeviceId,
+        selectInputDevice,
+        outputDevices,
+        selectedOutputDeviceId,
+        selectOutputDevice,
         sendUserInput: client.sendUserInput,
         sendAssistantInput: client.sendAssistantInput,
         sendSessionSettings: client.sendSessionSettings,
@@ -369,14 +1161,18 @@ export const VoiceProvider: FC<VoiceProviderProps> = ({
         isError,
         isMicrophoneError,
         isSocketError,
+        isSocketUnreachable,
         callDurationTimestamp,
         chatMetadata: messageStore.chatMetadata,
       }) satisfies VoiceContextType,
     [
       connect,
       disconnect,
+      disconnectReason,
+      clearChatGroup,
       player.fft,
       player.isPlaying,
+      player.getPlaybackMetrics,
       player.isAudioMuted,
       player.muteAudio,
       player.unmuteAudio,
@@ -389,6 +1185,24 @@ export const VoiceProvider: FC<VoiceProviderProps> = ({
       messageStore.lastUserMessage,
       messageStore.clearMessages,
       client.readyState,
+      client.roundTripTime,
+      client.droppedAudioFrames,
+      isUserSpeaking,
+      inputMode,
+      isTalking,
+      startTalking,
+      stopTalking,
+      duplexMode,
+      isHalfDuplex,
+      echoEstimate,
+      isEchoDetected,
+      inputDevices,
+      micPermission,
+      selectedInputDeviceId,
+      selectInputDevice,
+      outputDevices,
+      selectedOutputDeviceId,
+      selectOutputDevice,
       client.sendUserInput,
       client.sendAssistantInput,
       client.sendSessionSettings,
@@ -400,6 +1214,7 @@ export const VoiceProvider: FC<VoiceProviderProps> = ({
       isError,
       isMicrophoneError,
       isSocketError,
+      isSocketUnreachable,
       callDurationTimestamp,
       messageStore.chatMetadata,
     ],
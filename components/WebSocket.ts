@@ -34,6 +34,21 @@ const isWebSocket = (w: any) =>
 export type Event = Events.Event;
 export type ErrorEvent = Events.ErrorEvent;
 export type CloseEvent = Events.CloseEvent;
+export type PongEvent = Events.PongEvent;
+
+export type HeartbeatOptions = {
+  /** Milliseconds between pings. */
+  interval: number;
+  /**
+   * Number of unanswered pings after which the connection is considered dead
+   * and a reconnect is forced.
+   */
+  maxMissedPongs?: number;
+  /** Builds the ping frame for a sequence number. */
+  createPing?: (id: number) => Message;
+  /** Returns the sequence number a pong frame answers, or `null` if the frame is not a pong. */
+  parsePong?: (data: unknown) => number | null;
+};
 
 export type Options = {
   WebSocket?: any;
@@ -46,6 +61,7 @@ export type Options = {
   maxEnqueuedMessages?: number;
   startClosed?: boolean;
   debug?: boolean;
+  heartbeat?: HeartbeatOptions;
 };
 
 const DEFAULT = {
@@ -58,6 +74,27 @@ const DEFAULT = {
   maxEnqueuedMessages: Infinity,
   startClosed: false,
   debug: false,
+  maxMissedPongs: 3,
+};
+
+// weight of a new sample in the smoothed round trip time, as in RFC 6298
+const RTT_SMOOTHING = 0.125;
+
+const createDefaultPing = (id: number): Message =>
+  JSON.stringify({ type: 'ping', id });
+
+const parseDefaultPong = (data: unknown): number | null => {
+  if (typeof data !== 'string' || !data.includes('"pong"')) {
+    return null;
+  }
+  try {
+    const json = JSON.parse(data);
+    return json?.type === 'pong' && typeof json.id === 'number'
+      ? json.id
+      : null;
+  } catch (e) {
+    return null;
+  }
 };
 
 export type UrlProvider = string | (() => string) | (() => Promise<string>);
@@ -69,6 +106,7 @@ export type ListenersMap = {
   message: Array<Events.WebSocketEventListenerMap['message']>;
   open: Array<Events.WebSocketEventListenerMap['open']>;
   close: Array<Events.WebSocketEventListenerMap['close']>;
+  pong: Array<Events.WebSocketEventListenerMap['pong']>;
 };
 
 export class ReconnectingWebSocket {
@@ -78,6 +116,7 @@ export class ReconnectingWebSocket {
     message: [],
     open: [],
     close: [],
+    pong: [],
   };
   private _retryCount = -1;
   private _uptimeTimeout: any;
@@ -87,6 +126,10 @@ export class ReconnectingWebSocket {
   private _binaryType: BinaryType = 'blob';
   private _closeCalled = false;
   private _messageQueue: Message[] = [];
+  private _heartbeatInterval: any;
+  private _pingId = 0;
+  private _pendingPings = new Map<number, number>();
+  private _roundTripTime?: number;
 
   private readonly _url: UrlProvider;
   private readonly _protocols?: string | string[];
@@ -150,6 +193,14 @@ export class ReconnectingWebSocket {
     return Math.max(this._retryCount, 0);
   }
 
+  /**
+   * Smoothed round trip time of heartbeat pings in milliseconds, or undefined
+   * until the first pong arrives or when no heartbeat is configured
+   */
+  get roundTripTime(): number | undefined {
+    return this._roundTripTime;
+  }
+
   /**
    * The number of bytes of data that have been queued using calls to send() but not yet
    * transmitted to the network. This value resets to zero once all queued data has been sent.
@@ -382,6 +433,8 @@ export class ReconnectingWebSocket {
 
     if (this._retryCount >= maxRetries) {
       this._debug('max retries reached', this._retryCount, '>=', maxRetries);
+      this._connectLock = false;
+      this._handleMaxRetries();
       return;
     }
 
@@ -411,6 +464,16 @@ export class ReconnectingWebSocket {
           () => this._handleTimeout(),
           connectionTimeout,
         );
+      })
+      .catch((error: unknown) => {
+        // the url provider failed, e.g. an access token could not be fetched
+        this._connectLock = false;
+        this._handleError(
+          new Events.ErrorEvent(
+            error instanceof Error ? error : Error('Invalid URL'),
+            this,
+          ),
+        );
       });
   }
 
@@ -419,6 +482,94 @@ export class ReconnectingWebSocket {
     this._handleError(new Events.ErrorEvent(Error('TIMEOUT'), this));
   }
 
+  /**
+   * Notifies error listeners that no further connection attempts will be made.
+   * Unlike other errors this does not schedule a new connection.
+   */
+  private _handleMaxRetries() {
+    this._debug('max retries event');
+    const event = new Events.ErrorEvent(Error('MAX_RETRIES'), this);
+
+    if (this.onerror) {
+      this.onerror(event);
+    }
+    this._listeners.error.forEach((listener) =>
+      this._callEventListener(event, listener),
+    );
+  }
+
+  private _startHeartbeat() {
+    const { heartbeat } = this._options;
+    if (!heartbeat) {
+      return;
+    }
+    const {
+      interval,
+      maxMissedPongs = DEFAULT.maxMissedPongs,
+      createPing = createDefaultPing,
+    } = heartbeat;
+
+    this._stopHeartbeat();
+    this._heartbeatInterval = setInterval(() => {
+      if (this._pendingPings.size >= maxMissedPongs) {
+        this._debug('heartbeat timeout', this._pendingPings.size);
+        this._handleError(
+          new Events.ErrorEvent(Error('HEARTBEAT_TIMEOUT'), this),
+        );
+        return;
+      }
+      const id = ++this._pingId;
+      this._pendingPings.set(id, Date.now());
+      this._ws?.send(createPing(id));
+    }, interval);
+  }
+
+  private _stopHeartbeat() {
+    clearInterval(this._heartbeatInterval);
+    this._pendingPings.clear();
+    // the next connection measures its own
+    this._roundTripTime = undefined;
+  }
+
+  /**
+   * Records a pong if the message is one. Returns true if the message was a
+   * pong and should not be dispatched to message listeners.
+   */
+  private _handlePong(event: MessageEvent): boolean {
+    const { heartbeat } = this._options;
+    if (!heartbeat) {
+      return false;
+    }
+    const { parsePong = parseDefaultPong } = heartbeat;
+    const id = parsePong(event.data);
+    if (id === null) {
+      return false;
+    }
+
+    const sentAt = this._pendingPings.get(id);
+    if (sentAt === undefined) {
+      return true;
+    }
+    // a pong also answers any earlier ping that is still pending
+    this._pendingPings.forEach((_, pendingId) => {
+      if (pendingId <= id) {
+        this._pendingPings.delete(pendingId);
+      }
+    });
+
+    const sample = Date.now() - sentAt;
+    this._roundTripTime =
+      this._roundTripTime === undefined
+        ? sample
+        : (1 - RTT_SMOOTHING) * this._roundTripTime + RTT_SMOOTHING * sample;
+
+    const pongEvent = new Events.PongEvent(sample, this._roundTripTime, this);
+    this._listeners.pong.forEach((listener) =>
+      this._callEventListener(pongEvent, listener),
+    );
+    return true;
+  }
+
   private _disconnect(code = 1000, reason?: string) {
     this._clearTimeouts();
     if (!this._ws) {
@@ -464,6 +615,8 @@ export class ReconnectingWebSocket {
     this._messageQueue.forEach((message) => this._ws?.send(message));
     this._messageQueue = [];
 
+    this._startHeartbeat();
+
     if (this.onopen) {
       this.onopen(event);
     }
@@ -475,6 +628,10 @@ export class ReconnectingWebSocket {
   private _handleMessage = (event: MessageEvent) => {
     this._debug('message event');
 
+    if (this._handlePong(event)) {
+      return;
+    }
+
     if (this.onmessage) {
       this.onmessage(event);
     }
@@ -544,5 +701,6 @@ export class ReconnectingWebSocket {
   private _clearTimeouts() {
     clearTimeout(this._connectTimeout);
     clearTimeout(this._uptimeTimeout);
+    this._stopHeartbeat();
   }
 }
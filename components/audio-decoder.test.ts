@@ -0,0 +1,429 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+  type AudioDecodingContext,
+  DEFAULT_AUDIO_OUTPUT_FORMAT,
+  decodeAudioOutput,
+  decodePcm,
+  deinterleave,
+  isWav,
+  parseWavHeader,
+} from './audio-decoder';
+import type { AudioOutputFormat } from './types/AudioOutput';
+
+type Chunk = {
+  id: string;
+  body: Uint8Array;
+  /** The size to write in the chunk header, if not the body's. */
+  size?: number;
+};
+
+const ascii = (text: string) =>
+  Uint8Array.from(text, (char) => char.charCodeAt(0));
+
+/** A RIFF WAVE file of the given chunks, each padded to an even length. */
+const wav = (...chunks: Chunk[]) => {
+  const length = chunks.reduce(
+    (sum, chunk) => sum + 8 + chunk.body.length + (chunk.body.length % 2),
+    12,
+  );
+  const bytes = new Uint8Array(length);
+  const view = new DataView(bytes.buffer);
+  bytes.set(ascii('RIFF'), 0);
+  view.setUint32(4, length - 8, true);
+  bytes.set(ascii('WAVE'), 8);
+  let offset = 12;
+  chunks.forEach((chunk) => {
+    bytes.set(ascii(chunk.id), offset);
+    view.setUint32(offset + 4, chunk.size ?? chunk.body.length, true);
+    bytes.set(chunk.body, offset + 8);
+    offset += 8 + chunk.body.length + (chunk.body.length % 2);
+  });
+  return bytes.buffer;
+};
+
+const fmt = ({
+  formatTag = 1,
+  channels = 1,
+  sampleRate = 16000,
+  bitsPerSample = 16,
+  subFormatTag,
+}: {
+  formatTag?: number;
+  channels?: number;
+  sampleRate?: number;
+  bitsPerSample?: number;
+  /** Makes this a WAVE_FORMAT_EXTENSIBLE chunk with this sub format. */
+  subFormatTag?: number;
+} = {}): Chunk => {
+  const body = new Uint8Array(subFormatTag === undefined ? 16 : 40);
+  const view = new DataView(body.buffer);
+  const blockAlign = (channels * bitsPerSample) / 8;
+  view.setUint16(0, subFormatTag === undefined ? formatTag : 0xfffe, true);
+  view.setUint16(2, channels, true);
+  view.setUint32(4, sampleRate, true);
+  view.setUint32(8, sampleRate * blockAlign, true);
+  view.setUint16(12, blockAlign, true);
+  view.setUint16(14, bitsPerSample, true);
+  if (subFormatTag !== undefined) {
+    view.setUint16(16, 22, true);
+    view.setUint16(18, bitsPerSample, true);
+    // the first two bytes of the sub format GUID
+    view.setUint16(24, subFormatTag, true);
+  }
+  return { id: 'fmt ', body };
+};
+
+const data = (body: ArrayBuffer | Uint8Array, size?: number): Chunk => ({
+  id: 'data',
+  body: body instanceof Uint8Array ? body : new Uint8Array(body),
+  size,
+});
+
+const int16 = (...samples: number[]) => new Int16Array(samples).buffer;
+const float32 = (...samples: number[]) => new Float32Array(samples).buffer;
+
+/** Little-endian 24-bit samples. */
+const int24 = (...samples: number[]) => {
+  const bytes = new Uint8Array(samples.length * 3);
+  samples.forEach((sample, i) => {
+    bytes[3 * i] = sample & 0xff;
+    bytes[3 * i + 1] = (sample >> 8) & 0xff;
+    bytes[3 * i + 2] = (sample >> 16) & 0xff;
+  });
+  return bytes.buffer;
+};
+
+const FORMAT = (
+  encoding: AudioOutputFormat['encoding'],
+  channels = 1,
+): AudioOutputFormat => ({ encoding, sampleRate: 24000, channels });
+
+/** Stands in for an `AudioContext`, keeping what it is asked to create. */
+const fakeContext = () => {
+  const decodeAudioData = vi.fn(async (buffer: ArrayBuffer) => ({
+    decoded: buffer,
+  }));
+  const createBuffer = vi.fn(
+    (channels: number, length: number, sampleRate: number) => {
+      const data = Array.from(
+        { length: channels },
+        () => new Float32Array(length),
+      );
+      return {
+        numberOfChannels: channels,
+        length,
+        sampleRate,
+        getChannelData: (channel: number) => data[channel]!,
+      };
+    },
+  );
+  const context = {
+    decodeAudioData,
+    createBuffer,
+  } as unknown as AudioDecodingContext;
+  return { context, decodeAudioData, createBuffer };
+};
+
+describe('isWav', () => {
+  it('recognizes a RIFF WAVE header', () => {
+    expect(isWav(wav(fmt(), data(int16(0))))).toBe(true);
+  });
+
+  it('rejects other data', () => {
+    expect(isWav(int16(1, 2, 3, 4, 5, 6))).toBe(false);
+    expect(isWav(ascii('RIFF').buffer)).toBe(false);
+  });
+});
+
+describe('parseWavHeader', () => {
+  it.each([
+    [8, 'uint8'],
+    [16, 'int16'],
+    [24, 'int24'],
+    [32, 'int32'],
+  ] as const)('reads %i-bit PCM as %s', (bitsPerSample, sampleFormat) => {
+    const header = parseWavHeader(
+      wav(
+        fmt({ bitsPerSample, channels: 2, sampleRate: 44100 }),
+        data(new Uint8Array(8)),
+      ),
+    );
+
+    expect(header).toEqual({
+      sampleFormat,
+      sampleRate: 44100,
+      channels: 2,
+      dataOffset: 44,
+      dataLength: 8,
+    });
+  });
+
+  it('reads 32-bit float', () => {
+    const header = parseWavHeader(
+      wav(fmt({ formatTag: 3, bitsPerSample: 32 }), data(float32(0.5))),
+    );
+    expect(header.sampleFormat).toBe('float32');
+  });
+
+  it('reads the sub format of WAVE_FORMAT_EXTENSIBLE', () => {
+    const pcm = parseWavHeader(
+      wav(fmt({ subFormatTag: 1, bitsPerSample: 24 }), data(int24(1))),
+    );
+    expect(pcm.sampleFormat).toBe('int24');
+    expect(pcm.dataOffset).toBe(12 + 48 + 8);
+
+    const float = parseWavHeader(
+      wav(fmt({ subFormatTag: 3, bitsPerSample: 32 }), data(float32(1))),
+    );
+    expect(float.sampleFormat).toBe('float32');
+  });
+
+  it('skips other chunks', () => {
+    const header = parseWavHeader(
+      wav(
+        { id: 'LIST', body: new Uint8Array(10) },
+        fmt(),
+        { id: 'fact', body: new Uint8Array(4) },
+        data(int16(1, 2)),
+      ),
+    );
+    expect(header.dataOffset).toBe(12 + 18 + 24 + 12 + 8);
+    expect(header.dataLength).toBe(4);
+  });
+
+  it('skips the padding after an odd sized chunk', () => {
+    const header = parseWavHeader(
+      wav(fmt(), { id: 'LIST', body: new Uint8Array(3) }, data(int16(1))),
+    );
+    // 3 bytes and a pad byte
+    expect(header.dataOffset).toBe(12 + 24 + 12 + 8);
+  });
+
+  it('takes a data chunk longer than the file to run to its end', () => {
+    const header = parseWavHeader(wav(fmt(), data(int16(1, 2, 3), 0xffffffff)));
+    expect(header.dataLength).toBe(6);
+  });
+
+  it('rejects data that is not WAV', () => {
+    expect(() => parseWavHeader(int16(1, 2, 3, 4, 5, 6))).toThrow(
+      'Not a WAV file',
+    );
+  });
+
+  it('rejects a truncated format chunk', () => {
+    expect(() =>
+      parseWavHeader(wav({ id: 'fmt ', body: new Uint8Array(14) })),
+    ).toThrow('WAV format chunk is truncated');
+    // says it is 16 bytes, but the file ends first
+    const truncated = wav(fmt()).slice(0, 12 + 8 + 10);
+    expect(() => parseWavHeader(truncated)).toThrow(
+      'WAV format chunk is truncated',
+    );
+  });
+
+  it('rejects a truncated WAVE_FORMAT_EXTENSIBLE chunk', () => {
+    const chunk = fmt();
+    new DataView(chunk.body.buffer).setUint16(0, 0xfffe, true);
+    expect(() => parseWavHeader(wav(chunk, data(int16(1))))).toThrow(
+      'WAV format chunk is truncated',
+    );
+  });
+
+  it.each([
+    [1, 12],
+    [3, 64],
+    // ADPCM
+    [2, 4],
+  ])('rejects format tag %i with %i bits', (formatTag, bitsPerSample) => {
+    expect(() =>
+      parseWavHeader(
+        wav(fmt({ formatTag, bitsPerSample }), data(new Uint8Array(8))),
+      ),
+    ).toThrow(
+      `Unsupported WAV format: tag ${formatTag}, ${bitsPerSample} bits`,
+    );
+  });
+
+  it('rejects a format with no channels', () => {
+    expect(() =>
+      parseWavHeader(wav(fmt({ channels: 0 }), data(int16(1)))),
+    ).toThrow('WAV file has no channels');
+  });
+
+  it('rejects a data chunk before the format chunk', () => {
+    expect(() => parseWavHeader(wav(data(int16(1)), fmt()))).toThrow(
+      'WAV data chunk comes before the format chunk',
+    );
+  });
+
+  it('rejects a file without a data chunk', () => {
+    expect(() => parseWavHeader(wav(fmt()))).toThrow(
+      'WAV file has no data chunk',
+    );
+  });
+});
+
+describe('deinterleave', () => {
+  it('splits interleaved channels', () => {
+    const channels = deinterleave(
+      int16(0x4000, -0x4000, 0, 0x2000, -0x8000, 0x7fff),
+      'int16',
+      2,
+    );
+
+    expect(channels).toEqual([
+      new Float32Array([0.5, 0, -1]),
+      new Float32Array([-0.5, 0.25, 0x7fff / 0x8000]),
+    ]);
+  });
+
+  it('splits three channels', () => {
+    const channels = deinterleave(float32(1, 2, 3, 4, 5, 6), 'float32', 3);
+    expect(channels).toEqual([
+      new Float32Array([1, 4]),
+      new Float32Array([2, 5]),
+      new Float32Array([3, 6]),
+    ]);
+  });
+
+  it('scales unsigned 8-bit samples around 128', () => {
+    const [samples] = deinterleave(
+      new Uint8Array([0, 64, 128, 255]).buffer,
+      'uint8',
+      1,
+    );
+    expect(samples).toEqual(new Float32Array([-1, -0.5, 0, 127 / 128]));
+  });
+
+  it('sign extends 24-bit samples', () => {
+    const [samples] = deinterleave(
+      int24(0x400000, -0x400000, -1, -0x800000),
+      'int24',
+      1,
+    );
+    expect(samples).toEqual(new Float32Array([0.5, -0.5, -1 / 0x800000, -1]));
+  });
+
+  it('scales 32-bit samples', () => {
+    const [samples] = deinterleave(
+      new Int32Array([0x40000000, -0x80000000]).buffer,
+      'int32',
+      1,
+    );
+    expect(samples).toEqual(new Float32Array([0.5, -1]));
+  });
+
+  it('ignores a trailing partial sample frame', () => {
+    const channels = deinterleave(int16(1, 2, 3), 'int16', 2);
+    expect(channels.map((samples) => samples.length)).toEqual([1, 1]);
+  });
+
+  it('reads only the given range', () => {
+    const buffer = int16(0x7fff, 0x4000, 0x2000, 0x7fff);
+    const [samples] = deinterleave(buffer, 'int16', 1, 2, 4);
+    expect(samples).toEqual(new Float32Array([0.5, 0.25]));
+  });
+});
+
+describe('decodePcm', () => {
+  it('decodes stereo WAV at its own sample rate', () => {
+    const pcm = decodePcm(
+      wav(
+        fmt({ channels: 2, sampleRate: 44100 }),
+        data(int16(0x4000, -0x4000, 0x2000, -0x2000)),
+      ),
+      FORMAT('wav'),
+    );
+
+    expect(pcm).toEqual({
+      sampleRate: 44100,
+      channels: [
+        new Float32Array([0.5, 0.25]),
+        new Float32Array([-0.5, -0.25]),
+      ],
+    });
+  });
+
+  it('decodes WAV sent as another encoding', () => {
+    const pcm = decodePcm(
+      wav(fmt({ sampleRate: 8000 }), data(int16(0x4000))),
+      DEFAULT_AUDIO_OUTPUT_FORMAT,
+    );
+    expect(pcm?.sampleRate).toBe(8000);
+  });
+
+  it('decodes raw linear16 in the given format', () => {
+    const pcm = decodePcm(
+      int16(0x4000, -0x4000, 0, 0x2000),
+      FORMAT('linear16', 2),
+    );
+
+    expect(pcm).toEqual({
+      sampleRate: 24000,
+      channels: [new Float32Array([0.5, 0]), new Float32Array([-0.5, 0.25])],
+    });
+  });
+
+  it('decodes raw float32 in the given format', () => {
+    const pcm = decodePcm(float32(0.5, -0.5), FORMAT('float32'));
+    expect(pcm?.channels).toEqual([new Float32Array([0.5, -0.5])]);
+  });
+
+  it('leaves compressed audio to the browser', () => {
+    expect(
+      decodePcm(new Uint8Array([0xff, 0xfb, 0x90]).buffer, FORMAT('mp3')),
+    ).toBeNull();
+  });
+});
+
+describe('decodeAudioOutput', () => {
+  it('copies PCM into a buffer at its own sample rate', async () => {
+    const { context, createBuffer, decodeAudioData } = fakeContext();
+
+    const buffer = await decodeAudioOutput(
+      int16(0x4000, -0x4000, 0x2000, -0x2000),
+      FORMAT('linear16', 2),
+      context,
+    );
+
+    expect(createBuffer).toHaveBeenCalledWith(2, 2, 24000);
+    expect(decodeAudioData).not.toHaveBeenCalled();
+    expect(buffer.getChannelData(0)).toEqual(new Float32Array([0.5, 0.25]));
+    expect(buffer.getChannelData(1)).toEqual(new Float32Array([-0.5, -0.25]));
+  });
+
+  it('has the browser decode compressed audio from a copy', async () => {
+    const { context, decodeAudioData } = fakeContext();
+    const mp3 = new Uint8Array([0xff, 0xfb, 0x90, 0x00]).buffer;
+
+    await decodeAudioOutput(mp3, FORMAT('mp3'), context);
+
+    const [copy] = decodeAudioData.mock.calls[0]!;
+    expect(copy).not.toBe(mp3);
+    expect(new Uint8Array(copy)).toEqual(new Uint8Array(mp3));
+  });
+
+  it('rejects audio without samples', async () => {
+    const { context } = fakeContext();
+
+    await expect(
+      decodeAudioOutput(new ArrayBuffer(0), FORMAT('linear16'), context),
+    ).rejects.toThrow('Audio output has no samples');
+    await expect(
+      decodeAudioOutput(
+        wav(fmt(), data(new Uint8Array(0))),
+        FORMAT('wav'),
+        context,
+      ),
+    ).rejects.toThrow('Audio output has no samples');
+  });
+
+  it('rejects a WAV file it cannot parse', async () => {
+    const { context } = fakeContext();
+
+    await expect(
+      decodeAudioOutput(wav(fmt()), FORMAT('wav'), context),
+    ).rejects.toThrow('WAV file has no data chunk');
+  });
+});
@@ -0,0 +1,308 @@
+import type { AudioOutputFormat } from './types/AudioOutput';
+
+/*
+ * Decoding of the assistant's audio for playback. Raw PCM and WAV are decoded
+ * here; other formats are left to the browser's `decodeAudioData`. Apart from
+ * that, this module has no browser dependencies.
+ */
+
+/**
+ * The format of audio from servers that do not say, which send mono 16 kHz
+ * linear16.
+ */
+export const DEFAULT_AUDIO_OUTPUT_FORMAT: AudioOutputFormat = {
+  encoding: 'linear16',
+  sampleRate: 16000,
+  channels: 1,
+};
+
+/** How each sample of PCM audio is stored. */
+export type PcmSampleFormat = 'uint8' | 'int16' | 'int24' | 'int32' | 'float32';
+
+const BYTES_PER_SAMPLE: Record<PcmSampleFormat, number> = {
+  uint8: 1,
+  int16: 2,
+  int24: 3,
+  int32: 4,
+  float32: 4,
+};
+
+export interface WavHeader {
+  sampleFormat: PcmSampleFormat;
+  sampleRate: number;
+  channels: number;
+  /** Byte offset of the samples from the start of the file. */
+  dataOffset: number;
+  /** Length of the samples in bytes. */
+  dataLength: number;
+}
+
+// WAVE format tags
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+const RIFF_HEADER_SIZE = 12;
+const CHUNK_HEADER_SIZE = 8;
+
+/** The samples, one array in [-1, 1] per channel. */
+export interface DecodedPcm {
+  sampleRate: number;
+  channels: Float32Array[];
+}
+
+/**
+ * The subset of `BaseAudioContext` needed to decode audio.
+ */
+export type AudioDecodingContext = Pick<
+  BaseAudioContext,
+  'createBuffer' | 'decodeAudioData'
+>;
+
+const readTag = (view: DataView, offset: number): string => {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3),
+  );
+};
+
+/**
+ * @name isWav
+ * @description
+ * Whether the data starts with a RIFF WAVE header.
+ */
+export const isWav = (data: ArrayBuffer): boolean => {
+  if (data.byteLength < RIFF_HEADER_SIZE) {
+    return false;
+  }
+  const view = new DataView(data);
+  return readTag(view, 0) === 'RIFF' && readTag(view, 8) === 'WAVE';
+};
+
+const toSampleFormat = (
+  formatTag: number,
+  bitsPerSample: number,
+): PcmSampleFormat | undefined => {
+  if (formatTag === WAVE_FORMAT_IEEE_FLOAT) {
+    return bitsPerSample === 32 ? 'float32' : undefined;
+  }
+  if (formatTag !== WAVE_FORMAT_PCM) {
+    return undefined;
+  }
+  switch (bitsPerSample) {
+    case 8:
+      return 'uint8';
+    case 16:
+      return 'int16';
+    case 24:
+      return 'int24';
+    case 32:
+      return 'int32';
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * @name parseWavHeader
+ * @description
+ * Find the format and the samples in a WAV file. Chunks other than `fmt ` and
+ * `data` are skipped. A `data` chunk whose length runs past the end of the
+ * file, as written by streaming encoders that cannot know it in advance, is
+ * taken to run to the end of the file.
+ * @throws Error if the data is not a WAV file, or its samples are not PCM or
+ * 32-bit float.
+ */
+export const parseWavHeader = (data: ArrayBuffer): WavHeader => {
+  if (!isWav(data)) {
+    throw new Error('Not a WAV file');
+  }
+  const view = new DataView(data);
+
+  let format:
+    | Pick<WavHeader, 'sampleFormat' | 'sampleRate' | 'channels'>
+    | undefined;
+  let offset = RIFF_HEADER_SIZE;
+  while (offset + CHUNK_HEADER_SIZE <= data.byteLength) {
+    const id = readTag(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + CHUNK_HEADER_SIZE;
+
+    if (id === 'fmt ') {
+      if (size < 16 || body + 16 > data.byteLength) {
+        throw new Error('WAV format chunk is truncated');
+      }
+      let formatTag = view.getUint16(body, true);
+      const bitsPerSample = view.getUint16(body + 14, true);
+      if (formatTag === WAVE_FORMAT_EXTENSIBLE) {
+        if (size < 40 || body + 26 > data.byteLength) {
+          throw new Error('WAV format chunk is truncated');
+        }
+        // the format tag is the first two bytes of the sub format GUID
+        formatTag = view.getUint16(body + 24, true);
+      }
+      const sampleFormat = toSampleFormat(formatTag, bitsPerSample);
+      if (sampleFormat === undefined) {
+        throw new Error(
+          `Unsupported WAV format: tag ${formatTag}, ${bitsPerSample} bits`,
+        );
+      }
+      const channels = view.getUint16(body + 2, true);
+      if (channels === 0) {
+        throw new Error('WAV file has no channels');
+      }
+      format = {
+        sampleFormat,
+        channels,
+        sampleRate: view.getUint32(body + 4, true),
+      };
+    } else if (id === 'data') {
+      if (format === undefined) {
+        throw new Error('WAV data chunk comes before the format chunk');
+      }
+      return {
+        ...format,
+        dataOffset: body,
+        dataLength: Math.min(size, data.byteLength - body),
+      };
+    }
+
+    // chunks are padded to an even length
+    offset = body + size + (size % 2);
+  }
+
+  throw new Error('WAV file has no data chunk');
+};
+
+const readSample = (
+  view: DataView,
+  offset: number,
+  sampleFormat: PcmSampleFormat,
+): number => {
+  switch (sampleFormat) {
+    case 'uint8':
+      return (view.getUint8(offset) - 0x80) / 0x80;
+    case 'int16':
+      return view.getInt16(offset, true) / 0x8000;
+    case 'int24': {
+      const value =
+        view.getUint8(offset) |
+        (view.getUint8(offset + 1) << 8) |
+        (view.getInt8(offset + 2) << 16);
+      return value / 0x800000;
+    }
+    case 'int32':
+      return view.getInt32(offset, true) / 0x80000000;
+    case 'float32':
+      return view.getFloat32(offset, true);
+  }
+};
+
+/**
+ * @name deinterleave
+ * @description
+ * Split interleaved little-endian PCM into one array of samples per channel.
+ * A trailing partial sample frame is ignored.
+ */
+export const deinterleave = (
+  data: ArrayBuffer,
+  sampleFormat: PcmSampleFormat,
+  channelCount: number,
+  byteOffset = 0,
+  byteLength = data.byteLength - byteOffset,
+): Float32Array[] => {
+  const bytesPerSample = BYTES_PER_SAMPLE[sampleFormat];
+  const frames = Math.floor(byteLength / (bytesPerSample * channelCount));
+  const view = new DataView(data, byteOffset, byteLength);
+
+  const channels = Array.from(
+    { length: channelCount },
+    () => new Float32Array(frames),
+  );
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < channelCount; c++) {
+      channels[c]![i] = readSample(
+        view,
+        (i * channelCount + c) * bytesPerSample,
+        sampleFormat,
+      );
+    }
+  }
+  return channels;
+};
+
+/**
+ * @name decodePcm
+ * @description
+ * Decode a WAV file, or raw PCM in `format`, into samples.
+ * @returns the samples, or null if the audio is neither WAV nor raw PCM
+ * @throws Error if a WAV file cannot be parsed.
+ */
+export const decodePcm = (
+  data: ArrayBuffer,
+  format: AudioOutputFormat,
+): DecodedPcm | null => {
+  // servers may send WAV without saying so
+  if (format.encoding === 'wav' || isWav(data)) {
+    const header = parseWavHeader(data);
+    return {
+      sampleRate: header.sampleRate,
+      channels: deinterleave(
+        data,
+        header.sampleFormat,
+        header.channels,
+        header.dataOffset,
+        header.dataLength,
+      ),
+    };
+  }
+
+  if (format.encoding === 'linear16' || format.encoding === 'float32') {
+    return {
+      sampleRate: format.sampleRate,
+      channels: deinterleave(
+        data,
+        format.encoding === 'linear16' ? 'int16' : 'float32',
+        format.channels,
+      ),
+    };
+  }
+
+  return null;
+};
+
+/**
+ * @name decodeAudioOutput
+ * @description
+ * Decode audio in `format` into an `AudioBuffer` for `context`. WAV and raw
+ * PCM keep their own sample rate, so that the context resamples them as they
+ * play; compressed formats are decoded, and resampled, by the browser.
+ * @throws Error if the audio cannot be decoded.
+ */
+export const decodeAudioOutput = async (
+  data: ArrayBuffer,
+  format: AudioOutputFormat,
+  context: AudioDecodingContext,
+): Promise<AudioBuffer> => {
+  const pcm = decodePcm(data, format);
+  if (pcm === null) {
+    // decodeAudioData detaches the buffer it is given
+    return context.decodeAudioData(data.slice(0));
+  }
+
+  const frames = pcm.channels[0]?.length ?? 0;
+  if (frames === 0) {
+    throw new Error('Audio output has no samples');
+  }
+  const buffer = context.createBuffer(
+    pcm.channels.length,
+    frames,
+    pcm.sampleRate,
+  );
+  pcm.channels.forEach((samples, channel) => {
+    buffer.getChannelData(channel).set(samples);
+  });
+  return buffer;
+};
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  type AudioEncoder,
+  DEFAULT_AUDIO_CONFIGURATION,
+  decodeToMono,
+  float32Encoder,
+  getAudioConfiguration,
+  linear16Encoder,
+} from './audio-encoder';
+
+describe('encoders', () => {
+  it('interleaves 16-bit samples', () => {
+    const data = linear16Encoder.encode([
+      Float32Array.of(0, 1),
+      Float32Array.of(-1, 0.5),
+    ]);
+
+    expect(Array.from(new Int16Array(data))).toEqual([0, -32768, 32767, 16383]);
+  });
+
+  it('clips 16-bit samples to full scale', () => {
+    const data = linear16Encoder.encode([Float32Array.of(2, -2)]);
+
+    expect(Array.from(new Int16Array(data))).toEqual([32767, -32768]);
+  });
+
+  it('interleaves float samples', () => {
+    const data = float32Encoder.encode([
+      Float32Array.of(0.25, 2),
+      Float32Array.of(-0.5, 0),
+    ]);
+
+    expect(Array.from(new Float32Array(data))).toEqual([0.25, -0.5, 2, 0]);
+  });
+
+  it('decodes to the mean of the channels', () => {
+    const data = float32Encoder.encode([
+      Float32Array.of(0.25, 1),
+      Float32Array.of(0.75, 0),
+    ]);
+
+    expect(Array.from(decodeToMono(data, 'float32', 2))).toEqual([0.5, 0.5]);
+  });
+});
+
+describe('getAudioConfiguration', () => {
+  it('defaults to mono 16 kHz linear16', () => {
+    expect(getAudioConfiguration()).toEqual(DEFAULT_AUDIO_CONFIGURATION);
+  });
+
+  it('takes what the session settings set', () => {
+    expect(
+      getAudioConfiguration({ encoding: 'float32', sampleRate: 24000 }),
+    ).toEqual({ encoding: 'float32', sampleRate: 24000, channels: 1 });
+  });
+
+  it('declares the encoding of a custom encoder', () => {
+    expect(getAudioConfiguration(undefined, float32Encoder)).toEqual({
+      ...DEFAULT_AUDIO_CONFIGURATION,
+      encoding: 'float32',
+    });
+  });
+
+  it('declares the encoding of a custom encoder over the session settings', () => {
+    const encoder: AudioEncoder = {
+      encoding: 'float32',
+      encode: float32Encoder.encode,
+    };
+
+    expect(
+      getAudioConfiguration(
+        { encoding: 'linear16', sampleRate: 48000, channels: 2 },
+        encoder,
+      ),
+    ).toEqual({ encoding: 'float32', sampleRate: 48000, channels: 2 });
+  });
+});
@@ -0,0 +1,117 @@
+import type { AudioFrameEncoding } from './audio-frame';
+import type { AudioConfiguration } from './types/AudioConfiguration';
+
+/**
+ * Converts captured Float32 samples into the wire encoding.
+ */
+export interface AudioEncoder {
+  readonly encoding: AudioFrameEncoding;
+  /**
+   * @param channels - One array of samples in [-1, 1] per channel, all of the
+   * same length.
+   * @returns The encoded samples, interleaved when there are several channels.
+   */
+  encode(channels: Float32Array[]): ArrayBuffer;
+}
+
+const frameCount = (channels: Float32Array[]): number => {
+  return channels.reduce(
+    (min, channel) => Math.min(min, channel.length),
+    channels[0]?.length ?? 0,
+  );
+};
+
+export const float32Encoder: AudioEncoder = {
+  encoding: 'float32',
+  encode(channels) {
+    const frames = frameCount(channels);
+    const view = new DataView(new ArrayBuffer(frames * channels.length * 4));
+    for (let i = 0; i < frames; i++) {
+      for (let c = 0; c < channels.length; c++) {
+        view.setFloat32((i * channels.length + c) * 4, channels[c]![i]!, true);
+      }
+    }
+    return view.buffer;
+  },
+};
+
+/**
+ * 16-bit signed little-endian PCM.
+ */
+export const linear16Encoder: AudioEncoder = {
+  encoding: 'linear16',
+  encode(channels) {
+    const frames = frameCount(channels);
+    const view = new DataView(new ArrayBuffer(frames * channels.length * 2));
+    for (let i = 0; i < frames; i++) {
+      for (let c = 0; c < channels.length; c++) {
+        const sample = Math.max(-1, Math.min(1, channels[c]![i]!));
+        view.setInt16(
+          (i * channels.length + c) * 2,
+          sample < 0 ? sample * 0x8000 : sample * 0x7fff,
+          true,
+        );
+      }
+    }
+    return view.buffer;
+  },
+};
+
+const ENCODERS: Record<AudioFrameEncoding, AudioEncoder> = {
+  float32: float32Encoder,
+  linear16: linear16Encoder,
+};
+
+export const getAudioEncoder = (encoding: AudioFrameEncoding): AudioEncoder => {
+  return ENCODERS[encoding];
+};
+
+/**
+ * Decode encoded samples back into one channel in [-1, 1], averaging the
+ * channels when there are several.
+ */
+export const decodeToMono = (
+  data: ArrayBuffer,
+  encoding: AudioFrameEncoding,
+  channels: number,
+): Float32Array => {
+  const bytesPerSample = encoding === 'linear16' ? 2 : 4;
+  const view = new DataView(data);
+  const frames = Math.floor(data.byteLength / (bytesPerSample * channels));
+  const samples = new Float32Array(frames);
+  for (let i = 0; i < frames; i++) {
+    let sum = 0;
+    for (let c = 0; c < channels; c++) {
+      const offset = (i * channels + c) * bytesPerSample;
+      sum +=
+        encoding === 'linear16'
+          ? view.getInt16(offset, true) / 0x8000
+          : view.getFloat32(offset, true);
+    }
+    samples[i] = sum / channels;
+  }
+  return samples;
+};
+
+/**
+ * The format microphone audio is sent in unless `sessionSettings.audio` says
+ * otherwise.
+ */
+export const DEFAULT_AUDIO_CONFIGURATION: AudioConfiguration = {
+  encoding: 'linear16',
+  channels: 1,
+  sampleRate: 16000,
+};
+
+/**
+ * The format microphone audio is sent in, as declared in the session
+ * settings. A custom `encoder` decides the encoding, whatever `audio` says.
+ */
+export const getAudioConfiguration = (
+  audio?: Partial<AudioConfiguration>,
+  encoder?: AudioEncoder,
+): AudioConfiguration => ({
+  ...DEFAULT_AUDIO_CONFIGURATION,
+  ...audio,
+  ...(encoder ? { encoding: encoder.encoding } : {}),
+});
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  AUDIO_FRAME_HEADER_SIZE,
+  type AudioFrameHeader,
+  decodeAudioFrame,
+  encodeAudioFrame,
+} from './audio-frame';
+
+const HEADER: AudioFrameHeader = {
+  encoding: 'linear16',
+  sequence: 7,
+  capturedAt: 1700000000123.5,
+  sampleRate: 16000,
+  channels: 1,
+};
+
+const encode = (header: Partial<AudioFrameHeader>, samples: ArrayBufferView) =>
+  encodeAudioFrame({ ...HEADER, ...header }, samples);
+
+/** Encode a valid frame, then overwrite one byte of its header. */
+const withByte = (offset: number, value: number) => {
+  const frame = encode({}, new Int16Array([1, 2]));
+  new DataView(frame).setUint8(offset, value);
+  return frame;
+};
+
+describe('audio frames', () => {
+  it('round trips linear16 samples', () => {
+    const samples = new Int16Array([0, 1, -1, 32767, -32768]);
+    const { header, payload } = decodeAudioFrame(encode({}, samples));
+
+    expect(header).toEqual(HEADER);
+    expect(new Int16Array(payload)).toEqual(samples);
+  });
+
+  it('round trips float32 samples', () => {
+    const samples = new Float32Array([0, 0.5, -0.25, 1, -1]);
+    const { header, payload } = decodeAudioFrame(
+      encode({ encoding: 'float32', sampleRate: 48000 }, samples),
+    );
+
+    expect(header.encoding).toBe('float32');
+    expect(header.sampleRate).toBe(48000);
+    expect(new Float32Array(payload)).toEqual(samples);
+  });
+
+  it('round trips interleaved multi-channel samples', () => {
+    // three frames of left, right
+    const samples = new Int16Array([1, -1, 2, -2, 3, -3]);
+    const { header, payload } = decodeAudioFrame(encode({ channels: 2 }, samples));
+
+    expect(header.channels).toBe(2);
+    expect(new Int16Array(payload)).toEqual(samples);
+  });
+
+  it('accepts a view onto part of a larger buffer', () => {
+    const frame = new Uint8Array(encode({}, new Int16Array([5, 6])));
+    const padded = new Uint8Array(frame.byteLength + 4);
+    padded.set(frame, 2);
+
+    const { payload } = decodeAudioFrame(padded.subarray(2, 2 + frame.byteLength));
+    expect(new Int16Array(payload)).toEqual(new Int16Array([5, 6]));
+  });
+
+  it('wraps the sequence number at 2^32', () => {
+    const decodeSequence = (sequence: number) =>
+      decodeAudioFrame(encode({ sequence }, new Int16Array([0]))).header
+        .sequence;
+
+    expect(decodeSequence(2 ** 32 - 1)).toBe(2 ** 32 - 1);
+    expect(decodeSequence(2 ** 32)).toBe(0);
+    expect(decodeSequence(2 ** 32 + 5)).toBe(5);
+  });
+
+  it('rejects an invalid channel count when encoding', () => {
+    expect(() => encode({ channels: 0 }, new Int16Array([0]))).toThrow(
+      'Invalid channel count',
+    );
+    expect(() => encode({ channels: 256 }, new Int16Array([0]))).toThrow(
+      'Invalid channel count',
+    );
+  });
+
+  it('rejects a truncated frame', () => {
+    const frame = encode({}, new Int16Array([1]));
+    expect(() =>
+      decodeAudioFrame(frame.slice(0, AUDIO_FRAME_HEADER_SIZE - 1)),
+    ).toThrow('shorter than its header');
+  });
+
+  it('rejects bad magic', () => {
+    expect(() => decodeAudioFrame(withByte(0, 0))).toThrow('Not an audio frame');
+  });
+
+  it('rejects an unsupported version', () => {
+    expect(() => decodeAudioFrame(withByte(2, 2))).toThrow(
+      'Unsupported audio frame version: 2',
+    );
+  });
+
+  it('rejects an unknown encoding', () => {
+    expect(() => decodeAudioFrame(withByte(3, 9))).toThrow(
+      'Unknown audio frame encoding: 9',
+    );
+  });
+
+  it('rejects a frame with no channels', () => {
+    expect(() => decodeAudioFrame(withByte(20, 0))).toThrow('has no channels');
+  });
+
+  it('rejects a partial sample', () => {
+    const frame = new Uint8Array(encode({}, new Int16Array([1, 2])));
+    expect(() => decodeAudioFrame(frame.subarray(0, frame.byteLength - 1))).toThrow(
+      'not a whole number of samples',
+    );
+  });
+
+  it('rejects a partial sample frame across channels', () => {
+    // three linear16 samples do not make whole stereo frames
+    expect(() =>
+      decodeAudioFrame(encode({ channels: 2 }, new Int16Array([1, 2, 3]))),
+    ).toThrow('not a whole number of samples');
+  });
+});
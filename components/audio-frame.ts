@@ -0,0 +1,145 @@
+import type { Encoding } from './types/AudioConfiguration';
+
+/*
+ * Binary framing for microphone audio sent on the send socket. Every frame is
+ * a fixed 24 byte little-endian header followed by the raw samples:
+ *
+ *   offset  size  field
+ *   0       2     magic, the ASCII bytes "FX"
+ *   2       1     version, currently 1
+ *   3       1     encoding (0 = float32, 1 = linear16)
+ *   4       4     sequence number, uint32, wraps around
+ *   8       8     capture timestamp, float64 milliseconds since the epoch
+ *   16      4     sample rate in Hz, uint32
+ *   20      1     channel count
+ *   21      3     reserved, zero
+ *   24      ...   samples, interleaved when there are several channels
+ *
+ * This module has no browser dependencies so that servers can decode frames
+ * with the same code.
+ */
+
+export const AUDIO_FRAME_MAGIC = 0x5846; // "FX" read as little-endian uint16
+export const AUDIO_FRAME_VERSION = 1;
+export const AUDIO_FRAME_HEADER_SIZE = 24;
+
+export type AudioFrameEncoding = 'float32' | Encoding;
+
+const ENCODING_CODES: Record<AudioFrameEncoding, number> = {
+  float32: 0,
+  linear16: 1,
+};
+
+const BYTES_PER_SAMPLE: Record<AudioFrameEncoding, number> = {
+  float32: 4,
+  linear16: 2,
+};
+
+export interface AudioFrameHeader {
+  encoding: AudioFrameEncoding;
+  sequence: number;
+  /** Capture time in milliseconds since the epoch. */
+  capturedAt: number;
+  sampleRate: number;
+  channels: number;
+}
+
+/** Everything in a header except the sequence number, which the sender assigns. */
+export type CapturedAudioInfo = Omit<AudioFrameHeader, 'sequence'>;
+
+export interface AudioFrame {
+  header: AudioFrameHeader;
+  payload: ArrayBuffer;
+}
+
+const toBytes = (data: ArrayBufferLike | ArrayBufferView): Uint8Array => {
+  return ArrayBuffer.isView(data)
+    ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+    : new Uint8Array(data);
+};
+
+const encodingFromCode = (code: number): AudioFrameEncoding | undefined => {
+  return (Object.keys(ENCODING_CODES) as AudioFrameEncoding[]).find(
+    (encoding) => ENCODING_CODES[encoding] === code,
+  );
+};
+
+/**
+ * @name encodeAudioFrame
+ * @description
+ * Prepend an audio frame header to raw samples.
+ */
+export const encodeAudioFrame = (
+  header: AudioFrameHeader,
+  samples: ArrayBufferLike | ArrayBufferView,
+): ArrayBuffer => {
+  if (header.channels < 1 || header.channels > 255) {
+    throw new Error(`Invalid channel count: ${header.channels}`);
+  }
+
+  const payload = toBytes(samples);
+  const buffer = new ArrayBuffer(AUDIO_FRAME_HEADER_SIZE + payload.byteLength);
+  const view = new DataView(buffer);
+
+  view.setUint16(0, AUDIO_FRAME_MAGIC, true);
+  view.setUint8(2, AUDIO_FRAME_VERSION);
+  view.setUint8(3, ENCODING_CODES[header.encoding]);
+  view.setUint32(4, header.sequence >>> 0, true);
+  view.setFloat64(8, header.capturedAt, true);
+  view.setUint32(16, header.sampleRate, true);
+  view.setUint8(20, header.channels);
+  new Uint8Array(buffer, AUDIO_FRAME_HEADER_SIZE).set(payload);
+
+  return buffer;
+};
+
+/**
+ * @name decodeAudioFrame
+ * @description
+ * Split an encoded audio frame into its header and samples.
+ * @throws Error if the frame is truncated, has an unknown version or
+ * encoding, or its payload is not a whole number of sample frames.
+ */
+export const decodeAudioFrame = (
+  data: ArrayBufferLike | ArrayBufferView,
+): AudioFrame => {
+  const bytes = toBytes(data);
+  if (bytes.byteLength < AUDIO_FRAME_HEADER_SIZE) {
+    throw new Error('Audio frame is shorter than its header');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.getUint16(0, true) !== AUDIO_FRAME_MAGIC) {
+    throw new Error('Not an audio frame');
+  }
+
+  const version = view.getUint8(2);
+  if (version !== AUDIO_FRAME_VERSION) {
+    throw new Error(`Unsupported audio frame version: ${version}`);
+  }
+
+  const encoding = encodingFromCode(view.getUint8(3));
+  if (encoding === undefined) {
+    throw new Error(`Unknown audio frame encoding: ${view.getUint8(3)}`);
+  }
+
+  if (view.getUint8(20) === 0) {
+    throw new Error('Audio frame has no channels');
+  }
+
+  const header: AudioFrameHeader = {
+    encoding,
+    sequence: view.getUint32(4, true),
+    capturedAt: view.getFloat64(8, true),
+    sampleRate: view.getUint32(16, true),
+    channels: view.getUint8(20),
+  };
+
+  const payloadSize = bytes.byteLength - AUDIO_FRAME_HEADER_SIZE;
+  if (payloadSize % (BYTES_PER_SAMPLE[encoding] * header.channels) !== 0) {
+    throw new Error('Audio frame payload is not a whole number of samples');
+  }
+
+  const payload = bytes.slice(AUDIO_FRAME_HEADER_SIZE).buffer;
+  return { header, payload };
+};
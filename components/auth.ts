@@ -16,3 +16,47 @@ export const AuthStrategySchema = z.union([
 ]);
 
 export type AuthStrategy = z.infer<typeof AuthStrategySchema>;
+
+/**
+ * Either a fixed strategy, or a function called before every connection
+ * attempt so that short-lived access tokens are refreshed on reconnect.
+ */
+export type AuthProvider = AuthStrategy | (() => Promise<AuthStrategy>);
+
+export const resolveAuth = async (
+  auth: AuthProvider,
+): Promise<AuthStrategy> => {
+  if (typeof auth === 'function') {
+    return AuthStrategySchema.parse(await auth());
+  }
+  return auth;
+};
+
+/**
+ * Query parameters that authenticate a socket URL.
+ */
+export const getAuthQueryParams = (
+  auth: AuthStrategy,
+): Record<string, string> => {
+  return auth.type === 'apiKey'
+    ? { api_key: auth.value }
+    : { access_token: auth.value };
+};
+
+const AccessTokenResponseSchema = z.object({
+  accessToken: z.string(),
+});
+
+/**
+ * Fetch a short-lived access token from the app's `/api/access-token` route.
+ */
+export const fetchAccessToken = async (): Promise<AuthStrategy> => {
+  const response = await fetch('/api/access-token', { cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch access token: ${response.status}`);
+  }
+  const { accessToken } = AccessTokenResponseSchema.parse(
+    await response.json(),
+  );
+  return { type: 'accessToken', value: accessToken };
+};
@@ -0,0 +1,197 @@
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import vm from 'node:vm';
+import { describe, expect, it } from 'vitest';
+
+import { Resampler } from './Resampler';
+import { getAudioEncoder } from './audio-encoder';
+import type { AudioFrameEncoding } from './audio-frame';
+
+/*
+ * public/worklets/capture-processor.js cannot import the TS modules, so it
+ * carries its own copy of the resampling and encoding. These tests run it in
+ * a stand-in worklet scope and check it against Resampler.ts and
+ * audio-encoder.ts.
+ */
+
+const WORKLET_SOURCE = readFileSync(
+  fileURLToPath(
+    new URL('../public/worklets/capture-processor.js', import.meta.url),
+  ),
+  'utf8',
+);
+
+// samples per channel the browser hands a worklet on each call
+const RENDER_QUANTUM = 128;
+
+type PostedFrame = { data: ArrayBuffer; startTime: number };
+
+type Processor = {
+  process: (inputs: Float32Array[][]) => boolean;
+};
+
+const loadProcessor = (
+  contextRate: number,
+  processorOptions: {
+    channels: number;
+    targetSampleRate: number;
+    encoding: AudioFrameEncoding;
+    frameSize: number;
+  },
+) => {
+  const posted: PostedFrame[] = [];
+  let processorClass: (new (options: unknown) => Processor) | null = null;
+
+  const scope = {
+    sampleRate: contextRate,
+    currentTime: 0,
+    AudioWorkletProcessor: class {
+      port = {
+        postMessage: (message: PostedFrame) => posted.push(message),
+      };
+    },
+    registerProcessor: (name: string, constructor: typeof processorClass) => {
+      expect(name).toBe('fx-capture-processor');
+      processorClass = constructor;
+    },
+  };
+  vm.runInNewContext(WORKLET_SOURCE, scope);
+
+  const processor = new processorClass!({ processorOptions });
+  /** Feed one render quantum per channel, as the browser would. */
+  const feed = (channels: Float32Array[], time: number) => {
+    scope.currentTime = time;
+    processor.process([channels]);
+  };
+  return { posted, feed };
+};
+
+const signal = (length: number, sampleRate: number, frequency: number) => {
+  const samples = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    samples[i] =
+      0.6 * Math.sin((2 * Math.PI * frequency * i) / sampleRate) +
+      0.3 * Math.sin((2 * Math.PI * 7100 * i) / sampleRate);
+  }
+  return samples;
+};
+
+const bytes = (buffers: ArrayBuffer[]) =>
+  Buffer.concat(buffers.map((buffer) => Buffer.from(new Uint8Array(buffer))));
+
+/** What the TS modules produce from the same input. */
+const expected = (
+  channels: Float32Array[],
+  contextRate: number,
+  targetSampleRate: number,
+  encoding: AudioFrameEncoding,
+  frames: number,
+) => {
+  const resampled = channels.map((samples) => {
+    const resampler = new Resampler(contextRate, targetSampleRate);
+    const output = new Float32Array(frames);
+    let length = 0;
+    for (
+      let i = 0;
+      i < samples.length && length < frames;
+      i += RENDER_QUANTUM
+    ) {
+      const chunk = resampler.process(samples.subarray(i, i + RENDER_QUANTUM));
+      output.set(chunk.subarray(0, frames - length), length);
+      length += chunk.length;
+    }
+    return output;
+  });
+  return Buffer.from(
+    new Uint8Array(getAudioEncoder(encoding).encode(resampled)),
+  );
+};
+
+const CASES: Array<{
+  contextRate: number;
+  channels: number;
+  encoding: AudioFrameEncoding;
+}> = [
+  { contextRate: 48000, channels: 1, encoding: 'linear16' },
+  { contextRate: 44100, channels: 1, encoding: 'linear16' },
+  { contextRate: 48000, channels: 2, encoding: 'linear16' },
+  { contextRate: 44100, channels: 2, encoding: 'float32' },
+];
+
+describe('capture worklet', () => {
+  it.each(CASES)(
+    'matches Resampler and the $encoding encoder at $contextRate Hz with $channels channel(s)',
+    ({ contextRate, channels, encoding }) => {
+      const targetSampleRate = 16000;
+      const frameSize = 320;
+      const { posted, feed } = loadProcessor(contextRate, {
+        channels,
+        targetSampleRate,
+        encoding,
+        frameSize,
+      });
+
+      const input = Array.from({ length: channels }, (_, c) =>
+        signal(RENDER_QUANTUM * 300, contextRate, 440 * (c + 1)),
+      );
+      for (let i = 0; i < input[0]!.length; i += RENDER_QUANTUM) {
+        feed(
+          input.map((samples) => samples.subarray(i, i + RENDER_QUANTUM)),
+          i / contextRate,
+        );
+      }
+
+      expect(posted.length).toBeGreaterThan(0);
+      expect(bytes(posted.map((frame) => frame.data))).toEqual(
+        expected(
+          input,
+          contextRate,
+          targetSampleRate,
+          encoding,
+          posted.length * frameSize,
+        ),
+      );
+    },
+  );
+
+  it('times each frame from the first sample in it', () => {
+    const { posted, feed } = loadProcessor(16000, {
+      channels: 1,
+      targetSampleRate: 16000,
+      encoding: 'linear16',
+      frameSize: 320,
+    });
+
+    for (let i = 0; i < 10; i++) {
+      feed(
+        [new Float32Array(RENDER_QUANTUM)],
+        1 + (i * RENDER_QUANTUM) / 16000,
+      );
+    }
+
+    // 1280 samples make four frames of 320
+    const expectedTimes = [0, 1, 2, 3].map((i) => 1 + (i * 320) / 16000);
+    expect(posted).toHaveLength(expectedTimes.length);
+    posted.forEach((frame, i) => {
+      expect(frame.startTime).toBeCloseTo(expectedTimes[i]!, 9);
+    });
+  });
+
+  it('repeats the last input channel for missing ones', () => {
+    const { posted, feed } = loadProcessor(16000, {
+      channels: 2,
+      targetSampleRate: 16000,
+      encoding: 'float32',
+      frameSize: RENDER_QUANTUM,
+    });
+
+    const mono = signal(RENDER_QUANTUM, 16000, 440);
+    feed([mono], 0);
+
+    const samples = new Float32Array(posted[0]!.data);
+    for (let i = 0; i < RENDER_QUANTUM; i++) {
+      expect(samples[2 * i]).toBe(mono[i]);
+      expect(samples[2 * i + 1]).toBe(mono[i]);
+    }
+  });
+});
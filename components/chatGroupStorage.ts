@@ -0,0 +1,26 @@
+// localStorage throws when storage is disabled (e.g. some private browsing
+// modes), in which case resumption across reloads is silently unavailable.
+
+export const loadChatGroupId = (key: string): string | undefined => {
+  try {
+    return window.localStorage.getItem(key) ?? undefined;
+  } catch (e) {
+    return undefined;
+  }
+};
+
+export const saveChatGroupId = (key: string, chatGroupId: string): void => {
+  try {
+    window.localStorage.setItem(key, chatGroupId);
+  } catch (e) {
+    return;
+  }
+};
+
+export const clearChatGroupId = (key: string): void => {
+  try {
+    window.localStorage.removeItem(key);
+  } catch (e) {
+    return;
+  }
+};
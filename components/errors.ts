@@ -53,3 +53,32 @@ export const isSocketFailedToParseMessageError = (
 ): err is SocketFailedToParseMessageError => {
   return err instanceof SocketFailedToParseMessageError;
 };
+
+export class SocketRetriesExhaustedError extends Error {
+  constructor(message?: string) {
+    super(
+      `Could not reach the server after retrying.${message ? ' ' + message : ''}`,
+    );
+    this.name = 'SocketRetriesExhaustedError';
+  }
+}
+
+/**
+ * @name isSocketRetriesExhaustedError
+ * @description
+ * Check if an error is a SocketRetriesExhaustedError.
+ * @param err - The error to check.
+ * @returns
+ * `true` if the error is a SocketRetriesExhaustedError.
+ * @example
+ * ```ts
+ * if (isSocketRetriesExhaustedError(err)) {
+ * console.error('Could not reach the server');
+ * }
+ * ```
+ */
+export const isSocketRetriesExhaustedError = (
+  err: unknown,
+): err is SocketRetriesExhaustedError => {
+  return err instanceof SocketRetriesExhaustedError;
+};
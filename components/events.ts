@@ -27,11 +27,24 @@ export class CloseEvent extends Event {
     this.reason = reason;
   }
 }
+export class PongEvent extends Event {
+  /** Round trip time of the answered ping, in milliseconds. */
+  public roundTripTime: number;
+  /** Smoothed round trip time over recent pings, in milliseconds. */
+  public smoothedRoundTripTime: number;
+  constructor(roundTripTime: number, smoothedRoundTripTime: number, target: any) {
+    super('pong', target);
+    this.roundTripTime = roundTripTime;
+    this.smoothedRoundTripTime = smoothedRoundTripTime;
+  }
+}
+
 export interface WebSocketEventMap {
   close: CloseEvent;
   error: ErrorEvent;
   message: MessageEvent;
   open: Event;
+  pong: PongEvent;
 }
 
 export interface WebSocketEventListenerMap {
@@ -45,4 +58,7 @@ export interface WebSocketEventListenerMap {
     event: MessageEvent,
   ) => void | { handleEvent: (event: MessageEvent) => void };
   open: (event: Event) => void | { handleEvent: (event: Event) => void };
+  pong: (
+    event: PongEvent,
+  ) => void | { handleEvent: (event: PongEvent) => void };
 }
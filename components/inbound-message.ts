@@ -0,0 +1,324 @@
+import z from 'zod';
+
+import {
+  SocketFailedToParseMessageError,
+  SocketUnknownMessageError,
+} from './errors';
+import { DEFAULT_AUDIO_OUTPUT_FORMAT } from './audio-decoder';
+import type {
+  AssistantEnd,
+  AssistantMessage,
+  AssistantTextDelta,
+  AudioOutput,
+  AudioOutputEncoding,
+  AudioOutputFormat,
+  ChatMetadata,
+  UserInterruption,
+  UserMessage,
+  WebSocketError,
+} from './types';
+
+export type InboundMessage =
+  | AssistantMessage
+  | AssistantTextDelta
+  | AssistantEnd
+  | UserMessage
+  | UserInterruption
+  | ChatMetadata
+  | AudioOutput
+  | WebSocketError;
+
+/**
+ * Decodes base64 into the bytes it encodes.
+ */
+export const decodeBase64 = (base64: string): ArrayBuffer => {
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0)).buffer;
+};
+
+const AudioOutputEncodingSchema = z.enum([
+  'linear16',
+  'float32',
+  'wav',
+  'mp3',
+  'opus',
+  'aac',
+]);
+
+/**
+ * Format fields that audio frames may carry, defaulting to the format of
+ * servers that do not send them.
+ */
+const AudioOutputFormatFields = {
+  encoding: AudioOutputEncodingSchema.default(
+    DEFAULT_AUDIO_OUTPUT_FORMAT.encoding,
+  ),
+  sample_rate: z
+    .number()
+    .int()
+    .positive()
+    .default(DEFAULT_AUDIO_OUTPUT_FORMAT.sampleRate),
+  channels: z
+    .number()
+    .int()
+    .positive()
+    .default(DEFAULT_AUDIO_OUTPUT_FORMAT.channels),
+};
+
+const toAudioOutputFormat = (obj: {
+  encoding: AudioOutputEncoding;
+  sample_rate: number;
+  channels: number;
+}): AudioOutputFormat => ({
+  encoding: obj.encoding,
+  sampleRate: obj.sample_rate,
+  channels: obj.channels,
+});
+
+const ChatMessageSchema = z.object({
+  role: z.string(),
+  content: z.string().optional(),
+});
+
+const AssistantMessageSchema = z
+  .object({
+    type: z.literal('assistant_message'),
+    custom_session_id: z.string().optional(),
+    id: z.string().optional(),
+    turn_id: z.string().optional(),
+    message: ChatMessageSchema,
+    from_text: z.boolean().default(false),
+  })
+  .transform(
+    (obj): AssistantMessage => ({
+      type: obj.type,
+      customSessionId: obj.custom_session_id,
+      id: obj.id,
+      turnId: obj.turn_id,
+      message: obj.message,
+      fromText: obj.from_text,
+    }),
+  );
+
+const AssistantTextDeltaSchema = z
+  .object({
+    type: z.literal('assistant_text_delta'),
+    custom_session_id: z.string().optional(),
+    turn_id: z.string(),
+    text: z.string(),
+  })
+  .transform(
+    (obj): AssistantTextDelta => ({
+      type: obj.type,
+      customSessionId: obj.custom_session_id,
+      turnId: obj.turn_id,
+      text: obj.text,
+    }),
+  );
+
+const AssistantEndSchema = z
+  .object({
+    type: z.literal('assistant_end'),
+    custom_session_id: z.string().optional(),
+    turn_id: z.string(),
+  })
+  .transform(
+    (obj): AssistantEnd => ({
+      type: obj.type,
+      customSessionId: obj.custom_session_id,
+      turnId: obj.turn_id,
+    }),
+  );
+
+const UserMessageSchema = z
+  .object({
+    type: z.literal('user_message'),
+    custom_session_id: z.string().optional(),
+    message: ChatMessageSchema,
+    time: z.object({ begin: z.number(), end: z.number() }).optional(),
+    from_text: z.boolean().default(false),
+  })
+  .transform(
+    (obj): UserMessage => ({
+      type: obj.type,
+      customSessionId: obj.custom_session_id,
+      message: obj.message,
+      time: obj.time,
+      fromText: obj.from_text,
+    }),
+  );
+
+const UserInterruptionSchema = z
+  .object({
+    type: z.literal('user_interruption'),
+    custom_session_id: z.string().optional(),
+    time: z.number(),
+  })
+  .transform(
+    (obj): UserInterruption => ({
+      type: obj.type,
+      customSessionId: obj.custom_session_id,
+      time: obj.time,
+    }),
+  );
+
+const ChatMetadataSchema = z
+  .object({
+    type: z.literal('chat_metadata'),
+    custom_session_id: z.string().optional(),
+    chat_group_id: z.string(),
+    chat_id: z.string(),
+    request_id: z.string().optional(),
+  })
+  .transform(
+    (obj): ChatMetadata => ({
+      type: obj.type,
+      customSessionId: obj.custom_session_id,
+      chatGroupId: obj.chat_group_id,
+      chatId: obj.chat_id,
+      requestId: obj.request_id,
+    }),
+  );
+
+const AudioOutputSchema = z
+  .object({
+    type: z.literal('audio_output'),
+    custom_session_id: z.string().optional(),
+    id: z.string(),
+    turn_id: z.string().optional(),
+    data: z.string(),
+    ...AudioOutputFormatFields,
+  })
+  .transform(
+    (obj): AudioOutput => ({
+      type: obj.type,
+      customSessionId: obj.custom_session_id,
+      id: obj.id,
+      turnId: obj.turn_id,
+      data: decodeBase64(obj.data),
+      format: toAudioOutputFormat(obj),
+    }),
+  );
+
+const WebSocketErrorSchema = z
+  .object({
+    type: z.literal('error'),
+    custom_session_id: z.string().optional(),
+    code: z.string(),
+    slug: z.string().optional(),
+    message: z.string(),
+  })
+  .transform(
+    (obj): WebSocketError => ({
+      type: obj.type,
+      customSessionId: obj.custom_session_id,
+      code: obj.code,
+      slug: obj.slug,
+      message: obj.message,
+    }),
+  );
+
+/**
+ * Frames sent by the original backend, which carry no `type` and bundle the
+ * transcript of both sides with the answer audio. A streamed answer is sent
+ * as frames sharing a `turn_id`, each with the next piece of the answer text,
+ * and the last one flagged `end_of_turn`.
+ */
+const createLegacyAnswerSchema = (createId: () => string) =>
+  z
+    .object({
+      answer_audio: z.string(),
+      question_text: z.string().optional(),
+      answer_text: z.string().optional(),
+      turn_id: z.string().optional(),
+      end_of_turn: z.boolean().optional(),
+      ...AudioOutputFormatFields,
+    })
+    .transform(
+      (obj): AudioOutput => ({
+        type: 'audio_output',
+        id: createId(),
+        data: decodeBase64(obj.answer_audio),
+        format: toAudioOutputFormat(obj),
+        turnId: obj.turn_id,
+        isEndOfTurn: obj.end_of_turn,
+        question: obj.question_text,
+        answer: obj.answer_text,
+      }),
+    );
+
+const InboundMessageSchemas = {
+  assistant_message: AssistantMessageSchema,
+  assistant_text_delta: AssistantTextDeltaSchema,
+  assistant_end: AssistantEndSchema,
+  user_message: UserMessageSchema,
+  user_interruption: UserInterruptionSchema,
+  chat_metadata: ChatMetadataSchema,
+  audio_output: AudioOutputSchema,
+  error: WebSocketErrorSchema,
+} satisfies Record<InboundMessage['type'], z.ZodTypeAny>;
+
+const isInboundMessageType = (
+  type: unknown,
+): type is keyof typeof InboundMessageSchemas => {
+  // not `in`, which also matches keys inherited from `Object.prototype`
+  return typeof type === 'string' && Object.hasOwn(InboundMessageSchemas, type);
+};
+
+/**
+ * @name parseInboundMessage
+ * @description
+ * Validate a raw socket frame and convert it into a typed inbound message.
+ * Legacy answer frames carry no id, so one is taken from `createId`.
+ * @throws SocketFailedToParseMessageError if the frame is not valid JSON or
+ * does not match the schema for its type.
+ * @throws SocketUnknownMessageError if the frame has an unrecognized type.
+ */
+export const parseInboundMessage = (
+  data: unknown,
+  createId: () => string,
+): InboundMessage => {
+  if (typeof data !== 'string') {
+    throw new SocketFailedToParseMessageError('Expected a text frame.');
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(data);
+  } catch (e) {
+    throw new SocketFailedToParseMessageError(
+      e instanceof Error ? e.message : undefined,
+    );
+  }
+
+  if (typeof json !== 'object' || json === null) {
+    throw new SocketFailedToParseMessageError('Expected a JSON object.');
+  }
+
+  const type = (json as { type?: unknown }).type;
+  const schema =
+    type === undefined
+      ? createLegacyAnswerSchema(createId)
+      : isInboundMessageType(type)
+        ? InboundMessageSchemas[type]
+        : null;
+
+  if (schema === null) {
+    throw new SocketUnknownMessageError(String(type));
+  }
+
+  try {
+    const result = schema.safeParse(json);
+    if (!result.success) {
+      throw new SocketFailedToParseMessageError(result.error.message);
+    }
+    return result.data;
+  } catch (e) {
+    if (e instanceof SocketFailedToParseMessageError) {
+      throw e;
+    }
+    // `atob` throws on invalid base64 audio payloads
+    throw new SocketFailedToParseMessageError(
+      e instanceof Error ? e.message : undefined,
+    );
+  }
+};
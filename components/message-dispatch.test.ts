@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { ChatSocket } from './ChatSocket';
+import { AUDIO_MESSAGE_DELAY, dispatchMessage } from './message-dispatch';
+
+const RECEIVED_AT = new Date(0);
+
+const audio = (
+  fields: Partial<Extract<ChatSocket.Response, { type: 'audio_output' }>>,
+): ChatSocket.Response => ({
+  type: 'audio_output',
+  id: 'audio',
+  data: new ArrayBuffer(2),
+  format: { encoding: 'linear16', sampleRate: 16000, channels: 1 },
+  receivedAt: RECEIVED_AT,
+  ...fields,
+});
+
+const assistantEnd = (turnId: string): ChatSocket.Response => ({
+  type: 'assistant_end',
+  turnId,
+  receivedAt: RECEIVED_AT,
+});
+
+/** Handlers that record what they are handed, in order. */
+const recorder = () => {
+  const calls: string[] = [];
+  const handlers = {
+    onMessage: vi.fn((message: { type: string }) => {
+      calls.push(message.type);
+    }),
+    onAudioMessage: vi.fn((message: { id: string }) => {
+      calls.push(`audio ${message.id}`);
+    }),
+    onError: vi.fn((message: string) => {
+      calls.push(`error ${message}`);
+    }),
+  };
+  return { calls, handlers };
+};
+
+describe('dispatchMessage', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('hands the text of audio on right away and the audio after the delay', () => {
+    const { calls, handlers } = recorder();
+
+    dispatchMessage(audio({ question: 'hi', answer: 'hello' }), handlers);
+    expect(calls).toEqual(['user_message', 'assistant_message']);
+
+    vi.advanceTimersByTime(AUDIO_MESSAGE_DELAY - 1);
+    expect(handlers.onAudioMessage).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+    expect(calls).toEqual(['user_message', 'assistant_message', 'audio audio']);
+  });
+
+  it('hands a streamed answer on as a text delta', () => {
+    const { handlers } = recorder();
+
+    dispatchMessage(audio({ answer: 'hel', turnId: 'turn' }), handlers);
+    expect(handlers.onMessage).toHaveBeenCalledWith({
+      type: 'assistant_text_delta',
+      turnId: 'turn',
+      text: 'hel',
+      receivedAt: RECEIVED_AT,
+    });
+  });
+
+  it('hands assistant_end on after the audio that arrived just before it', () => {
+    const { calls, handlers } = recorder();
+
+    dispatchMessage(audio({ id: 'first', turnId: 'turn' }), handlers);
+    vi.advanceTimersByTime(AUDIO_MESSAGE_DELAY / 2);
+    dispatchMessage(audio({ id: 'last', turnId: 'turn' }), handlers);
+    dispatchMessage(assistantEnd('turn'), handlers);
+    expect(calls).toEqual([]);
+
+    vi.advanceTimersByTime(AUDIO_MESSAGE_DELAY);
+    expect(calls).toEqual(['audio first', 'audio last', 'assistant_end']);
+  });
+
+  it('ends the turn after audio marked as its last', () => {
+    const { calls, handlers } = recorder();
+
+    dispatchMessage(audio({ turnId: 'turn', isEndOfTurn: true }), handlers);
+    vi.advanceTimersByTime(AUDIO_MESSAGE_DELAY);
+    expect(calls).toEqual(['audio audio', 'assistant_end']);
+    expect(handlers.onMessage).toHaveBeenCalledWith({
+      type: 'assistant_end',
+      turnId: 'turn',
+      receivedAt: RECEIVED_AT,
+    });
+  });
+
+  it('hands other messages on right away', () => {
+    const { calls, handlers } = recorder();
+
+    dispatchMessage(
+      { type: 'user_interruption', time: 0, receivedAt: RECEIVED_AT },
+      handlers,
+    );
+    expect(calls).toEqual(['user_interruption']);
+  });
+
+  it('reports error messages', () => {
+    const { handlers } = recorder();
+
+    dispatchMessage(
+      {
+        type: 'error',
+        code: 'E0001',
+        message: 'Bad audio',
+        receivedAt: RECEIVED_AT,
+      },
+      handlers,
+    );
+    expect(handlers.onError).toHaveBeenCalledWith(
+      'Bad audio',
+      new Error('Bad audio'),
+    );
+    expect(handlers.onMessage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,121 @@
+import type { ChatSocket } from './ChatSocket';
+import type {
+  AssistantEnd,
+  AssistantMessage,
+  AssistantTextDelta,
+  AudioOutput,
+  ChatMetadata,
+  UserInterruption,
+  UserMessage,
+} from './types';
+
+const isNever = (_n: never) => {
+  return;
+};
+
+export type VoiceClientMessage =
+  | AssistantMessage
+  | AssistantTextDelta
+  | AssistantEnd
+  | UserMessage
+  | UserInterruption
+  | ChatMetadata;
+
+/**
+ * How long audio is held before it is handed on, in milliseconds, so that it
+ * plays after the text that arrived with it is shown.
+ */
+export const AUDIO_MESSAGE_DELAY = 200;
+
+export type MessageHandlers = {
+  onMessage: (message: VoiceClientMessage & { receivedAt: Date }) => void;
+  onAudioMessage: (message: AudioOutput) => void;
+  onError: (message: string, error: Error) => void;
+};
+
+/**
+ * Hand a message from the server to the handlers. The text carried by
+ * `audio_output` is handed on as messages of its own right away, and the
+ * audio after `AUDIO_MESSAGE_DELAY`. `assistant_end` is held for as long, so
+ * that it never overtakes the audio of its turn.
+ */
+export const dispatchMessage = (
+  message: ChatSocket.Response,
+  handlers: MessageHandlers,
+): void => {
+  if (message.type === 'assistant_end') {
+    setTimeout(() => {
+      handlers.onMessage(message);
+    }, AUDIO_MESSAGE_DELAY);
+    return;
+  }
+
+  if (
+    message.type === 'assistant_message' ||
+    message.type === 'assistant_text_delta' ||
+    message.type === 'user_message' ||
+    message.type === 'user_interruption' ||
+    message.type === 'chat_metadata'
+  ) {
+    handlers.onMessage(message);
+    return;
+  }
+
+  if (message.type === 'audio_output') {
+    if (message.question) {
+      const questionMessage: UserMessage & { receivedAt: Date } = {
+        type: 'user_message',
+        fromText: false,
+        message: {
+          role: 'user',
+          content: message.question,
+        },
+        receivedAt: message.receivedAt,
+      };
+      handlers.onMessage(questionMessage);
+    }
+    if (message.answer && message.turnId !== undefined) {
+      // a piece of a streamed answer
+      const deltaMessage: AssistantTextDelta & { receivedAt: Date } = {
+        type: 'assistant_text_delta',
+        turnId: message.turnId,
+        text: message.answer,
+        receivedAt: message.receivedAt,
+      };
+      handlers.onMessage(deltaMessage);
+    } else if (message.answer) {
+      const textMessage: AssistantMessage & { receivedAt: Date } = {
+        type: 'assistant_message',
+        id: message.id,
+        fromText: false,
+        message: {
+          role: 'assistant',
+          content: message.answer,
+        },
+        receivedAt: message.receivedAt,
+      };
+      handlers.onMessage(textMessage);
+    }
+    setTimeout(() => {
+      handlers.onAudioMessage(message);
+      // the turn ends after its last audio, as with `assistant_end`
+      if (message.isEndOfTurn && message.turnId !== undefined) {
+        const endMessage: AssistantEnd & { receivedAt: Date } = {
+          type: 'assistant_end',
+          turnId: message.turnId,
+          receivedAt: message.receivedAt,
+        };
+        handlers.onMessage(endMessage);
+      }
+    }, AUDIO_MESSAGE_DELAY);
+    return;
+  }
+
+  if (message.type === 'error') {
+    handlers.onError(message.message, new Error(message.message));
+    return;
+  }
+
+  // asserts that all message types are handled
+  isNever(message);
+};
@@ -0,0 +1,12 @@
+export interface AssistantEnd {
+  /**
+   * The type of message sent through the socket; for an Assistant End message, this must be `assistant_end`.
+   *
+   * This message marks the end of an assistant turn. No more audio or text for the turn follows it.
+   */
+  type: 'assistant_end';
+  /** Used to manage conversational state, correlate frontend and backend data, and persist conversations across EVI sessions. */
+  customSessionId?: string;
+  /** ID of the assistant turn that has ended. */
+  turnId: string;
+}
@@ -11,6 +11,8 @@ export interface AssistantMessage {
   customSessionId?: string;
   /** ID of the assistant message. Allows the Assistant Message to be tracked and referenced. */
   id?: string;
+  /** ID of the assistant turn this is the full transcript of, when the turn is streamed in pieces. */
+  turnId?: string;
   /** Transcript of the message. */
   message: ChatMessage;
   /** Indicates if this message was inserted into the conversation as text from an [Assistant Input message](/reference/empathic-voice-interface-evi/chat/chat#send.Assistant%20Input.text). */
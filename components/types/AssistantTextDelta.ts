@@ -0,0 +1,14 @@
+export interface AssistantTextDelta {
+  /**
+   * The type of message sent through the socket; for an Assistant Text Delta message, this must be `assistant_text_delta`.
+   *
+   * This message carries the next piece of the transcript of an assistant turn that is still being streamed. The pieces of a turn are appended in the order they arrive.
+   */
+  type: 'assistant_text_delta';
+  /** Used to manage conversational state, correlate frontend and backend data, and persist conversations across EVI sessions. */
+  customSessionId?: string;
+  /** ID of the assistant turn the text belongs to. */
+  turnId: string;
+  /** Text to append to the transcript of the turn. */
+  text: string;
+}
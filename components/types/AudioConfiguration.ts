@@ -1,4 +1,4 @@
-export type Encoding = 'linear16';
+export type Encoding = 'linear16' | 'float32';
 
 
 export interface AudioConfiguration {
@@ -1,3 +1,24 @@
+/**
+ * Encoding of the assistant's audio. `linear16` and `float32` are raw
+ * little-endian PCM; `wav` is a WAV file; the rest are decoded by the browser.
+ */
+export type AudioOutputEncoding =
+  | 'linear16'
+  | 'float32'
+  | 'wav'
+  | 'mp3'
+  | 'opus'
+  | 'aac';
+
+export interface AudioOutputFormat {
+  /** Encoding of the audio output, such as `linear16`. */
+  encoding: AudioOutputEncoding;
+  /** Audio sample rate in Hertz. Only used for raw PCM; the other encodings carry their own. */
+  sampleRate: number;
+  /** Number of audio channels, interleaved in raw PCM. Only used for raw PCM. */
+  channels: number;
+}
+
 export interface AudioOutput {
   /** The type of message sent through the socket; for an Audio Output message, this must be `audio_output`. */
   type: 'audio_output';
@@ -5,8 +26,14 @@ export interface AudioOutput {
   customSessionId?: string;
   /** ID of the audio output. Allows the Audio Output message to be tracked and referenced. */
   id: string;
-  /** Base64 encoded audio output. This encoded audio is transmitted to the client, where it can be decoded and played back as part of the user interaction. */
-  data: Int16Array;
+  /** Audio output, decoded from the base64 it is transmitted in, and still encoded as described by `format`. */
+  data: ArrayBuffer;
+  /** How `data` is encoded. Defaults to mono 16 kHz `linear16` for servers that do not say. */
+  format: AudioOutputFormat;
+  /** ID of the assistant turn this audio is a chunk of, when the turn is streamed in pieces. */
+  turnId?: string;
+  /** Set on the last chunk of a turn from the original backend, which sends no separate end of turn marker. */
+  isEndOfTurn?: boolean;
   question?: string;
   answer?: string;
 }
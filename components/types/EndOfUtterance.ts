@@ -0,0 +1,10 @@
+export interface EndOfUtterance {
+  /**
+   * The type of message sent through the socket; must be `end_of_utterance` for our server to correctly identify and process it as an End of Utterance message.
+   *
+   * Sent in push-to-talk mode when the user releases the talk button, after the last of their audio, so that the server can respond without waiting to detect the end of speech itself.
+   */
+  type: 'end_of_utterance';
+  /** Used to manage conversational state, correlate frontend and backend data, and persist conversations across EVI sessions. */
+  customSessionId?: string;
+}
@@ -0,0 +1,16 @@
+export interface WebSocketError {
+  /**
+   * The type of message sent through the socket; for a Web Socket Error message, this must be `error`.
+   *
+   * This message indicates a disruption in the WebSocket connection, such as an unexpected disconnection, protocol error, or data transmission issue.
+   */
+  type: 'error';
+  /** Used to manage conversational state, correlate frontend and backend data, and persist conversations across EVI sessions. */
+  customSessionId?: string;
+  /** Error code. Identifies the type of error encountered. */
+  code: string;
+  /** Short, human-readable identifier and description for the error. */
+  slug?: string;
+  /** Detailed description of the error. */
+  message: string;
+}
@@ -1,5 +1,7 @@
 export * from './AssistantInput';
 export * from './AssistantMessage';
+export * from './AssistantTextDelta';
+export * from './AssistantEnd';
 export * from './ChatMessage';
 export * from './ChatMetadata';
 export * from './JsonMessage';
@@ -9,4 +11,6 @@ export * from './AudioOutput';
 export * from './SessionSettings';
 export * from './PauseAssistantMessage';
 export * from './ResumeAssistantMessage';
+export * from './EndOfUtterance';
 export * from './UserInterruption';
+export * from './WebSocketError';
@@ -1,14 +1,98 @@
 // cspell:ignore dataavailable
-import { useCallback, useRef, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 
 type PermissionStatus = 'prompt' | 'granted' | 'denied';
 
-export const getAudioStream = async (): Promise<MediaStream> => {
+/**
+ * Processing applied to the microphone by the browser.
+ */
+export type AudioCaptureConstraints = Pick<
+  MediaTrackConstraints,
+  'echoCancellation' | 'noiseSuppression' | 'autoGainControl' | 'channelCount'
+>;
+
+export const DEFAULT_CAPTURE_CONSTRAINTS: AudioCaptureConstraints = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+};
+
+/**
+ * Why the microphone could not be opened.
+ * - `not_allowed`: the user or browser refused access
+ * - `not_found`: there is no microphone, or not the one asked for
+ * - `not_readable`: the microphone is in use or failed at the OS level
+ * - `overconstrained`: no microphone satisfies the capture constraints
+ * - `insecure_context`: the page is not served over HTTPS
+ * - `unknown`: anything else
+ */
+export type MicErrorReason =
+  | 'not_allowed'
+  | 'not_found'
+  | 'not_readable'
+  | 'overconstrained'
+  | 'insecure_context'
+  | 'unknown';
+
+type GetStreamSuccessResult = { success: true };
+
+type GetStreamFailureResult = {
+  success: false;
+  reason: MicErrorReason;
+  error: Error;
+};
+
+export type GetStreamResult = GetStreamSuccessResult | GetStreamFailureResult;
+
+/**
+ * Map a `getUserMedia` failure to the reason it failed.
+ */
+export const getMicErrorReason = (error: unknown): MicErrorReason => {
+  if (typeof window !== 'undefined' && !window.isSecureContext) {
+    return 'insecure_context';
+  }
+  if (!(error instanceof Error)) {
+    return 'unknown';
+  }
+  switch (error.name) {
+    case 'NotAllowedError':
+    case 'PermissionDeniedError':
+    case 'SecurityError':
+      return 'not_allowed';
+    case 'NotFoundError':
+    case 'DevicesNotFoundError':
+      return 'not_found';
+    case 'NotReadableError':
+    case 'TrackStartError':
+    case 'AbortError':
+      return 'not_readable';
+    case 'OverconstrainedError':
+    case 'ConstraintNotSatisfiedError':
+      // an exact deviceId that matches nothing means the device is gone
+      return 'constraint' in error && error.constraint === 'deviceId'
+        ? 'not_found'
+        : 'overconstrained';
+    default:
+      return 'unknown';
+  }
+};
+
+/**
+ * @param constraints - Processing to ask the browser for.
+ * @param deviceId - The microphone to open, or the default one if omitted.
+ */
+export const getAudioStream = async (
+  constraints: AudioCaptureConstraints = DEFAULT_CAPTURE_CONSTRAINTS,
+  deviceId?: string,
+): Promise<MediaStream> => {
+  if (typeof navigator === 'undefined' || !navigator.mediaDevices) {
+    // browsers only expose mediaDevices in secure contexts
+    throw new DOMException('Microphone access requires HTTPS', 'SecurityError');
+  }
   return navigator.mediaDevices.getUserMedia({
     audio: {
-      echoCancellation: true,
-      noiseSuppression: true,
-      autoGainControl: true,
+      ...constraints,
+      deviceId: deviceId ? { exact: deviceId } : undefined,
     },
     video: false,
   });
@@ -34,22 +118,68 @@ const useEncoding = () => {
 
   const streamRef = useRef<MediaStream | null>(null);
 
-  const getStream = useCallback(async () => {
-    try {
-      const stream = await getAudioStream();
-
-      setPermission('granted');
-      streamRef.current = stream;
+  useEffect(() => {
+    // not every browser can query the microphone permission
+    if (typeof navigator === 'undefined' || !navigator.permissions) {
+      return;
+    }
+    let status: globalThis.PermissionStatus | null = null;
+    let isCancelled = false;
+    const handleChange = () => {
+      if (status) {
+        setPermission(status.state);
+      }
+    };
 
-      checkForAudioTracks(stream);
+    navigator.permissions
+      .query({ name: 'microphone' as PermissionName })
+      .then((result) => {
+        if (isCancelled) {
+          return;
+        }
+        status = result;
+        setPermission(result.state);
+        result.addEventListener('change', handleChange);
+      })
+      .catch(() => {
+        // the permission is learned from `getStream` instead
+      });
 
-      return 'granted' as const;
-    } catch (e) {
-      setPermission('denied');
-      return 'denied' as const;
-    }
+    return () => {
+      isCancelled = true;
+      status?.removeEventListener('change', handleChange);
+    };
   }, []);
 
+  const getStream = useCallback(
+    async (
+      constraints?: AudioCaptureConstraints,
+      deviceId?: string,
+    ): Promise<GetStreamResult> => {
+      try {
+        const stream = await getAudioStream(constraints, deviceId);
+
+        setPermission('granted');
+        streamRef.current = stream;
+
+        checkForAudioTracks(stream);
+
+        return { success: true };
+      } catch (e) {
+        const reason = getMicErrorReason(e);
+        if (reason === 'not_allowed') {
+          setPermission('denied');
+        }
+        return {
+          success: false,
+          reason,
+          error: e instanceof Error ? e : new Error('Unknown error'),
+        };
+      }
+    },
+    [],
+  );
+
   return {
     streamRef,
     getStream,
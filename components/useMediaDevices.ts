@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useState } from 'react';
+
+/**
+ * Lists the media devices of one kind and keeps the list current as devices
+ * are plugged in and out. Device labels are empty until the user has granted
+ * access to a device of that kind, so call `refresh` after that.
+ */
+export const useMediaDevices = (kind: MediaDeviceKind) => {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (typeof navigator === 'undefined' || !navigator.mediaDevices) {
+      return [];
+    }
+    try {
+      const all = await navigator.mediaDevices.enumerateDevices();
+      const next = all.filter((device) => device.kind === kind);
+      setDevices(next);
+      return next;
+    } catch {
+      // keep the last list; the devices themselves report their own errors
+      // when opened
+      return [];
+    }
+  }, [kind]);
+
+  useEffect(() => {
+    if (typeof navigator === 'undefined' || !navigator.mediaDevices) {
+      return;
+    }
+    void refresh();
+
+    const handleDeviceChange = () => {
+      void refresh();
+    };
+    navigator.mediaDevices.addEventListener('devicechange', handleDeviceChange);
+    return () => {
+      navigator.mediaDevices.removeEventListener(
+        'devicechange',
+        handleDeviceChange,
+      );
+    };
+  }, [refresh]);
+
+  return { devices, refresh };
+};
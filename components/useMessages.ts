@@ -1,9 +1,32 @@
-import { AssistantMessage, UserMessage, ChatMetadata, JsonMessage, UserInterruption } from './types';
-import { useCallback, useState } from 'react';
+import { AssistantMessage, AssistantTextDelta, AssistantEnd, AudioOutput, UserMessage, ChatMetadata, JsonMessage, UserInterruption } from './types';
+import { useCallback, useRef, useState } from 'react';
 
 import type { ConnectionMessage } from './connection-message';
 import { keepLastN } from '../utils';
 
+/**
+ * An assistant turn whose transcript is streamed in pieces.
+ */
+type AssistantTurn = {
+  message: AssistantMessage & { receivedAt: Date };
+  /** Whether the message has been added to `messages`. */
+  isShown: boolean;
+  /** Whether audio for the turn is queued, so that it is shown when it plays. */
+  hasAudio: boolean;
+  /** Whether `assistant_end` has arrived for the turn. */
+  isEnded: boolean;
+};
+
+/**
+ * Whether a turn that is not shown yet should be shown without waiting for
+ * its audio: it has ended, has none, and has some text.
+ */
+const isReadyWithoutAudio = (turn: AssistantTurn) =>
+  !turn.isShown &&
+  turn.isEnded &&
+  !turn.hasAudio &&
+  (turn.message.message.content ?? '') !== '';
+
 export const useMessages = ({
   sendMessageToParent,
   messageHistoryLimit,
@@ -35,6 +58,120 @@ export const useMessages = ({
   const [chatMetadata, setChatMetadata] =
     useState<ChatMetadata | null>(null);
 
+  // streamed turns, by turn id, until they fall out of the history
+  const assistantTurns = useRef<Map<string, AssistantTurn>>(new Map());
+
+  const getAssistantTurn = useCallback((turnId: string) => {
+    let turn = assistantTurns.current.get(turnId);
+    if (!turn) {
+      turn = {
+        message: {
+          type: 'assistant_message',
+          id: turnId,
+          turnId,
+          fromText: false,
+          message: { role: 'assistant', content: '' },
+          receivedAt: new Date(),
+        },
+        isShown: false,
+        hasAudio: false,
+        isEnded: false,
+      };
+      assistantTurns.current.set(turnId, turn);
+    }
+    return turn;
+  }, []);
+
+  /**
+   * Add the turn's message to `messages`, or update it in place if it is
+   * already there, so that a turn is always one message however many pieces
+   * it arrives in.
+   */
+  const showAssistantTurn = useCallback(
+    (turn: AssistantTurn) => {
+      const message = turn.message;
+      if (turn.isShown) {
+        setMessages((prev) =>
+          prev.map((m) =>
+            m.type === 'assistant_message' && m.turnId === message.turnId
+              ? message
+              : m,
+          ),
+        );
+      } else {
+        turn.isShown = true;
+        setMessages((prev) =>
+          keepLastN(messageHistoryLimit, prev.concat([message])),
+        );
+      }
+      setLastVoiceMessage(message);
+    },
+    [messageHistoryLimit],
+  );
+
+  /**
+   * Hand the turn to the parent once it has both ended and been shown. The
+   * turn is kept after that, so that a full transcript arriving after the end
+   * still replaces the shown message, until it is too old to be in `messages`.
+   */
+  const completeAssistantTurn = useCallback(
+    (turn: AssistantTurn) => {
+      if (!turn.isEnded || !turn.isShown) {
+        return;
+      }
+      sendMessageToParent?.(turn.message);
+
+      const turns = assistantTurns.current;
+      let excess = turns.size - messageHistoryLimit;
+      Array.from(turns.entries()).forEach(([turnId, { isEnded, isShown }]) => {
+        if (excess > 0 && isEnded && isShown) {
+          turns.delete(turnId);
+          excess--;
+        }
+      });
+    },
+    [messageHistoryLimit, sendMessageToParent],
+  );
+
+  const updateAssistantTurn = useCallback(
+    (turnId: string, getContent: (content: string) => string) => {
+      const turn = getAssistantTurn(turnId);
+      turn.message = {
+        ...turn.message,
+        message: {
+          ...turn.message.message,
+          content: getContent(turn.message.message.content ?? ''),
+        },
+      };
+
+      // until its audio starts, the turn is shown by `onPlayAudio`
+      if (turn.isShown || isReadyWithoutAudio(turn)) {
+        showAssistantTurn(turn);
+        // a transcript after the end corrects the one the parent was sent
+        completeAssistantTurn(turn);
+      }
+    },
+    [completeAssistantTurn, getAssistantTurn, showAssistantTurn],
+  );
+
+  const endAssistantTurn = useCallback(
+    (turnId: string) => {
+      // kept even before any of the turn arrived, for its transcript to follow
+      const turn = getAssistantTurn(turnId);
+      if (turn.isEnded) {
+        return;
+      }
+      turn.isEnded = true;
+      // a turn with audio is shown when the audio plays, one without once it
+      // is complete
+      if (isReadyWithoutAudio(turn)) {
+        showAssistantTurn(turn);
+      }
+      completeAssistantTurn(turn);
+    },
+    [completeAssistantTurn, getAssistantTurn, showAssistantTurn],
+  );
+
   const createConnectMessage = useCallback(() => {
     setMessages((prev) =>
       prev.concat([
@@ -58,7 +195,15 @@ export const useMessages = ({
   }, []);
 
   const onMessage = useCallback(
-    (message: JsonMessage | AssistantMessage | UserMessage | UserInterruption) => {
+    (
+      message:
+        | JsonMessage
+        | AssistantMessage
+        | AssistantTextDelta
+        | AssistantEnd
+        | UserMessage
+        | UserInterruption,
+    ) => {
       /* 
       1. message comes in from the backend
         - if the message IS NOT AssistantTranscriptMessage, store in `messages` immediately  
@@ -66,9 +211,26 @@ export const useMessages = ({
       2. audio clip plays
         - find the AssistantTranscriptMessage with a matching ID, and store it in `messages`
         - remove the AssistantTranscriptMessage from `voiceMessageMap`
+      A streamed turn is kept in `assistantTurns` instead, and shown as one
+      message that grows as its text arrives.
     */
       switch (message.type) {
+        case 'assistant_text_delta':
+          updateAssistantTurn(
+            message.turnId,
+            (content) => content + message.text,
+          );
+          break;
+        case 'assistant_end':
+          endAssistantTurn(message.turnId);
+          break;
         case 'assistant_message':
+          if (message.turnId !== undefined) {
+            // the full transcript of a streamed turn replaces its pieces
+            const content = message.message.content ?? '';
+            updateAssistantTurn(message.turnId, () => content);
+            break;
+          }
           // for assistant messages, `sendMessageToParent` is called in `onPlayAudio`
           // in order to line up the transcript event with the correct audio clip
           // @ts-ignore
@@ -101,13 +263,55 @@ export const useMessages = ({
         default:
           break;
       }
-      // eslint-disable-next-line react-hooks/exhaustive-deps
     },
-    [],
+    [
+      endAssistantTurn,
+      messageHistoryLimit,
+      sendMessageToParent,
+      updateAssistantTurn,
+    ],
+  );
+
+  /**
+   * Note audio queued for playback, so that its turn waits for it to play.
+   */
+  const onAudioOutput = useCallback(
+    (message: AudioOutput) => {
+      if (message.turnId !== undefined) {
+        getAssistantTurn(message.turnId).hasAudio = true;
+      }
+    },
+    [getAssistantTurn],
   );
 
+  /**
+   * Note that the queued audio was dropped, so that turns waiting for it to
+   * play are shown without it.
+   */
+  const onClearAudio = useCallback(() => {
+    assistantTurns.current.forEach((turn) => {
+      if (turn.isShown || !turn.hasAudio) {
+        return;
+      }
+      turn.hasAudio = false;
+      if (isReadyWithoutAudio(turn)) {
+        showAssistantTurn(turn);
+        completeAssistantTurn(turn);
+      }
+    });
+  }, [completeAssistantTurn, showAssistantTurn]);
+
   const onPlayAudio = useCallback(
     (id: string) => {
+      const turn = assistantTurns.current.get(id);
+      if (turn) {
+        if (!turn.isShown) {
+          showAssistantTurn(turn);
+          completeAssistantTurn(turn);
+        }
+        return;
+      }
+
       const matchingTranscript = voiceMessageMap[id];
       if (matchingTranscript) {
         sendMessageToParent?.(matchingTranscript);
@@ -127,7 +331,13 @@ export const useMessages = ({
         });
       }
     },
-    [voiceMessageMap, sendMessageToParent, messageHistoryLimit],
+    [
+      voiceMessageMap,
+      sendMessageToParent,
+      messageHistoryLimit,
+      showAssistantTurn,
+      completeAssistantTurn,
+    ],
   );
 
   const clearMessages = useCallback(() => {
@@ -135,12 +345,15 @@ export const useMessages = ({
     setLastVoiceMessage(null);
     setLastUserMessage(null);
     setVoiceMessageMap({});
+    assistantTurns.current.clear();
   }, []);
 
   return {
     createConnectMessage,
     createDisconnectMessage,
     onMessage,
+    onAudioOutput,
+    onClearAudio,
     onPlayAudio,
     clearMessages,
     messages,
@@ -1,10 +1,18 @@
-// cspell:ignore dataavailable
 import Meyda from 'meyda';
 import type { MeydaFeaturesObject } from 'meyda';
 import { useCallback, useEffect, useRef, useState } from 'react';
 import type { MutableRefObject } from 'react';
 
 import { generateEmptyFft } from './generateEmptyFft';
+import type { CapturedAudioInfo } from './audio-frame';
+import { type AudioEncoder, getAudioEncoder } from './audio-encoder';
+import type { AudioConfiguration } from './types/AudioConfiguration';
+import { Resampler } from './Resampler';
+
+const CAPTURE_WORKLET_URL = '/worklets/capture-processor.js';
+const CAPTURE_PROCESSOR_NAME = 'fx-capture-processor';
+// duration of the frames the worklet emits
+const CAPTURE_FRAME_MS = 20;
 
 export enum MimeType {
   WEBM = 'audio/webm',
@@ -14,7 +22,11 @@ export enum MimeType {
 
 export type MicrophoneProps = {
   streamRef: MutableRefObject<MediaStream | null>;
-  onAudioCaptured: (b: ArrayBuffer) => void;
+  /** The format captured audio is converted to before `onAudioCaptured`. */
+  audioConfiguration: AudioConfiguration;
+  /** Overrides the built-in encoder for `audioConfiguration.encoding`. */
+  encoder?: AudioEncoder;
+  onAudioCaptured: (b: ArrayBuffer, info: CapturedAudioInfo) => void;
   onStartRecording?: () => void;
   onStopRecording?: () => void;
   onError: (message: string) => void;
@@ -96,49 +108,164 @@ export function getBrowserSupportedMimeType(): MimeTypeResult {
 }
 
 export const useMicrophone = (props: MicrophoneProps) => {
-  const { streamRef, onAudioCaptured, onError } = props;
+  const { streamRef, onAudioCaptured, onError, audioConfiguration } = props;
   const [isMuted, setIsMuted] = useState(false);
   const isMutedRef = useRef(isMuted);
 
   const [fft, setFft] = useState<number[]>(generateEmptyFft());
   // @ts-ignore
   const currentAnalyzer = useRef<Meyda.MeydaAnalyzer | null>(null);
-  const mimeTypeRef = useRef<MimeType | null>(null);
 
   const audioContext = useRef<AudioContext | null>(null);
-
-  const recorder = useRef<MediaRecorder | null>(null);
+  const inputSource = useRef<MediaStreamAudioSourceNode | null>(null);
+  const captureNode = useRef<AudioNode | null>(null);
 
   const sendAudio = useRef(onAudioCaptured);
   sendAudio.current = onAudioCaptured;
 
-  const dataHandler = useCallback(async (event: BlobEvent) => {
-    const blob = event.data;
-    try {
-      const buffer = await blob.arrayBuffer();
-      if (buffer.byteLength > 0) {
-        console.log('send', buffer.byteLength);
-        const tmpContext = new AudioContext({ sampleRate: 16000 });
-        const audioBuffer = await tmpContext.decodeAudioData(buffer);
-        const float32Data = audioBuffer.getChannelData(0);
-
-        sendAudio.current?.(float32Data);
-      }
-    } catch (err) {
-      console.error(err);
+  const encoder = useRef(
+    props.encoder ?? getAudioEncoder(audioConfiguration.encoding),
+  );
+  encoder.current =
+    props.encoder ?? getAudioEncoder(audioConfiguration.encoding);
+
+  const channelCount = useRef(audioConfiguration.channels);
+  channelCount.current = audioConfiguration.channels;
+
+  const targetSampleRate = useRef(audioConfiguration.sampleRate);
+  targetSampleRate.current = audioConfiguration.sampleRate;
+
+  // one per channel, recreated whenever the input or target rate changes
+  const resamplers = useRef<Resampler[]>([]);
+
+  const resample = useCallback((samples: Float32Array[], inputRate: number) => {
+    const outputRate = targetSampleRate.current;
+    if (inputRate === outputRate) {
+      return samples;
+    }
+    if (
+      resamplers.current.length !== samples.length ||
+      resamplers.current.some(
+        (resampler) =>
+          resampler.inputRate !== inputRate ||
+          resampler.outputRate !== outputRate,
+      )
+    ) {
+      resamplers.current = samples.map(
+        () => new Resampler(inputRate, outputRate),
+      );
     }
+    return samples.map((channel, c) => resamplers.current[c]!.process(channel));
   }, []);
 
-  const start = useCallback(() => {
+  /**
+   * Convert a captured buffer to the configured format and pass it on.
+   * `capturedAt` is when the first sample was captured.
+   */
+  const emitCapturedAudio = useCallback(
+    (buffer: AudioBuffer, capturedAt: number) => {
+      const channels = Array.from({ length: channelCount.current }, (_, c) =>
+        // repeat the last input channel if the device has fewer channels
+        buffer.getChannelData(Math.min(c, buffer.numberOfChannels - 1)),
+      );
+      sendAudio.current?.(
+        encoder.current.encode(resample(channels, buffer.sampleRate)),
+        {
+          encoding: encoder.current.encoding,
+          capturedAt,
+          sampleRate: targetSampleRate.current,
+          channels: channels.length,
+        },
+      );
+    },
+    [resample],
+  );
+
+  /**
+   * Capture on the audio rendering thread, where the worklet batches,
+   * resamples and encodes frames before transferring them here.
+   */
+  const startWorkletCapture = useCallback(
+    async (context: AudioContext, input: MediaStreamAudioSourceNode) => {
+      await context.audioWorklet.addModule(CAPTURE_WORKLET_URL);
+
+      const channels = channelCount.current;
+      const sampleRate = targetSampleRate.current;
+      const encoding = audioConfiguration.encoding;
+      const node = new AudioWorkletNode(context, CAPTURE_PROCESSOR_NAME, {
+        numberOfInputs: 1,
+        numberOfOutputs: 1,
+        channelCount: channels,
+        channelCountMode: 'explicit',
+        processorOptions: {
+          channels,
+          targetSampleRate: sampleRate,
+          encoding,
+          frameSize: Math.round((sampleRate * CAPTURE_FRAME_MS) / 1000),
+        },
+      });
+
+      node.port.onmessage = (
+        event: MessageEvent<{ data: ArrayBuffer; startTime: number }>,
+      ) => {
+        const { data, startTime } = event.data;
+        sendAudio.current?.(data, {
+          encoding,
+          // map the context time of the first sample onto the wall clock
+          capturedAt: Date.now() - (context.currentTime - startTime) * 1000,
+          sampleRate,
+          channels,
+        });
+      };
+
+      input.connect(node);
+      // nodes that are not connected to the destination may not be processed
+      node.connect(context.destination);
+      return node;
+    },
+    [audioConfiguration.encoding],
+  );
+
+  /**
+   * Capture on the main thread, for browsers without AudioWorklet support
+   * and for custom encoders, which cannot run inside the worklet.
+   */
+  const startScriptProcessorCapture = useCallback(
+    (context: AudioContext, input: MediaStreamAudioSourceNode) => {
+      resamplers.current = [];
+      const node = context.createScriptProcessor(
+        1024,
+        channelCount.current,
+        channelCount.current,
+      );
+      node.onaudioprocess = (event) => {
+        const { inputBuffer } = event;
+        // the callback fires once the whole buffer has been captured
+        emitCapturedAudio(
+          inputBuffer,
+          Date.now() - inputBuffer.duration * 1000,
+        );
+      };
+
+      input.connect(node);
+      node.connect(context.destination);
+      return node;
+    },
+    [emitCapturedAudio],
+  );
+
+  const start = useCallback(async () => {
     const stream = streamRef.current;
     if (!stream) {
       throw new Error('No stream connected');
     }
 
-    const context = new AudioContext({ sampleRate: 16000 });
+    // capture at the device's native rate, since browsers may reject or
+    // ignore other rates, and resample to the configured rate ourselves
+    const context = new AudioContext();
     audioContext.current = context;
     const input = context.createMediaStreamSource(stream);
-    const recorder = context.createScriptProcessor(1024, 1, 1);
+    inputSource.current = input;
 
     try {
       currentAnalyzer.current = Meyda.createMeydaAnalyzer({
@@ -157,26 +284,50 @@ export const useMicrophone = (props: MicrophoneProps) => {
       console.error(`Failed to start mic analyzer: ${message}`);
     }
 
-    //recorder.current = new MediaRecorder(stream, {
-    //  mimeType,
-    //});
-    //recorder.current.addEventListener('dataavailable', dataHandler);
-    //recorder.current.start(100);
-    recorder.onaudioprocess = event => {
-      sendAudio.current?.(event.inputBuffer.getChannelData(0));
-    };
-
-    input.connect(recorder);
-    recorder.connect(context.destination);
+    let recorder: AudioNode | null = null;
+    if (!props.encoder && context.audioWorklet) {
+      try {
+        recorder = await startWorkletCapture(context, input);
+      } catch {
+        // e.g. the worklet module failed to load; the fallback still works
+      }
+    }
+    captureNode.current =
+      recorder ?? startScriptProcessorCapture(context, input);
+  }, [
+    streamRef,
+    props.encoder,
+    startWorkletCapture,
+    startScriptProcessorCapture,
+  ]);
+
+  /**
+   * Capture from a different stream from now on, e.g. another device,
+   * without restarting the capture graph. The previous stream is stopped.
+   */
+  const replaceStream = useCallback(
+    (stream: MediaStream) => {
+      const previous = streamRef.current;
+      streamRef.current = stream;
+      stream.getAudioTracks().forEach((track) => {
+        track.enabled = !isMutedRef.current;
+      });
 
-    // Stop recording after some time
-    setTimeout(() => {
-      recorder.disconnect();
-      stream.getTracks().forEach(track => track.stop());
+      const context = audioContext.current;
+      if (context && captureNode.current) {
+        const input = context.createMediaStreamSource(stream);
+        input.connect(captureNode.current);
+        inputSource.current?.disconnect();
+        inputSource.current = input;
+        currentAnalyzer.current?.setSource(input);
+      }
 
-      // Process audioChunks to create a Blob or other format
-    }, 100000);
-  }, [dataHandler, streamRef, mimeTypeRef]);
+      if (previous && previous !== stream) {
+        previous.getTracks().forEach((track) => track.stop());
+      }
+    },
+    [streamRef],
+  );
 
   const stop = useCallback(() => {
     try {
@@ -199,11 +350,11 @@ export const useMicrophone = (props: MicrophoneProps) => {
           });
       }
 
-      recorder.current?.stop();
-      recorder.current?.removeEventListener('dataavailable', dataHandler);
-      recorder.current = null;
+      inputSource.current = null;
+      captureNode.current = null;
       streamRef.current?.getTracks().forEach((track) => track.stop());
 
+      isMutedRef.current = false;
       setIsMuted(false);
     } catch (e) {
       const message = e instanceof Error ? e.message : 'Unknown error';
@@ -211,7 +362,7 @@ export const useMicrophone = (props: MicrophoneProps) => {
       console.log(e);
       void true;
     }
-  }, [dataHandler, onError, streamRef]);
+  }, [onError, streamRef]);
 
   const mute = useCallback(() => {
     if (currentAnalyzer.current) {
@@ -243,9 +394,6 @@ export const useMicrophone = (props: MicrophoneProps) => {
   useEffect(() => {
     return () => {
       try {
-        recorder.current?.stop();
-        recorder.current?.removeEventListener('dataavailable', dataHandler);
-
         if (currentAnalyzer.current) {
           currentAnalyzer.current.stop();
           currentAnalyzer.current = null;
@@ -258,20 +406,12 @@ export const useMicrophone = (props: MicrophoneProps) => {
         void true;
       }
     };
-  }, [dataHandler, streamRef]);
-
-  useEffect(() => {
-    const mimeTypeResult = getBrowserSupportedMimeType();
-    if (mimeTypeResult.success) {
-      mimeTypeRef.current = mimeTypeResult.mimeType;
-    } else {
-      onError(mimeTypeResult.error.message);
-    }
-  }, [onError]);
+  }, [streamRef]);
 
   return {
     start,
     stop,
+    replaceStream,
     mute,
     unmute,
     isMuted,
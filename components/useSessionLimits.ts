@@ -0,0 +1,125 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+export type SessionLimitReason = 'max_duration' | 'idle_timeout';
+
+export type SessionLimitWarning = {
+  reason: SessionLimitReason;
+  /** Milliseconds left before the call is ended. */
+  remaining: number;
+};
+
+export type SessionLimitsProps = {
+  /** Longest a call may last, in milliseconds. */
+  maxDuration?: number;
+  /** Longest a call may go without speech from either side, in milliseconds. */
+  idleTimeout?: number;
+  /** How long before a limit is reached to warn, in milliseconds. */
+  warningTime: number;
+  onWarning: (warning: SessionLimitWarning) => void;
+  onLimit: (reason: SessionLimitReason) => void;
+};
+
+/**
+ * Ends a call that runs too long or goes quiet. `start` begins both clocks,
+ * `recordActivity` restarts the idle clock and `setActive(true)` holds it,
+ * e.g. while the assistant is speaking.
+ */
+export const useSessionLimits = (props: SessionLimitsProps) => {
+  const maxDuration = useRef(props.maxDuration);
+  maxDuration.current = props.maxDuration;
+
+  const idleTimeout = useRef(props.idleTimeout);
+  idleTimeout.current = props.idleTimeout;
+
+  const warningTime = useRef(props.warningTime);
+  warningTime.current = props.warningTime;
+
+  const onWarning = useRef(props.onWarning);
+  onWarning.current = props.onWarning;
+
+  const onLimit = useRef(props.onLimit);
+  onLimit.current = props.onLimit;
+
+  const durationTimers = useRef<number[]>([]);
+  const idleTimers = useRef<number[]>([]);
+  const isRunning = useRef(false);
+  const isActive = useRef(false);
+
+  const clearTimers = useCallback((timers: { current: number[] }) => {
+    timers.current.forEach((timer) => window.clearTimeout(timer));
+    timers.current = [];
+  }, []);
+
+  const stop = useCallback(() => {
+    isRunning.current = false;
+    isActive.current = false;
+    clearTimers(durationTimers);
+    clearTimers(idleTimers);
+  }, [clearTimers]);
+
+  const schedule = useCallback(
+    (
+      timers: { current: number[] },
+      reason: SessionLimitReason,
+      limit: number | undefined,
+    ) => {
+      clearTimers(timers);
+      if (limit === undefined) {
+        return;
+      }
+
+      const remaining = Math.min(warningTime.current, limit);
+      if (remaining > 0) {
+        timers.current.push(
+          window.setTimeout(() => {
+            onWarning.current({ reason, remaining });
+          }, limit - remaining),
+        );
+      }
+      timers.current.push(
+        window.setTimeout(() => {
+          stop();
+          onLimit.current(reason);
+        }, limit),
+      );
+    },
+    [clearTimers, stop],
+  );
+
+  const start = useCallback(() => {
+    isRunning.current = true;
+    isActive.current = false;
+    schedule(durationTimers, 'max_duration', maxDuration.current);
+    schedule(idleTimers, 'idle_timeout', idleTimeout.current);
+  }, [schedule]);
+
+  const recordActivity = useCallback(() => {
+    if (isRunning.current && !isActive.current) {
+      schedule(idleTimers, 'idle_timeout', idleTimeout.current);
+    }
+  }, [schedule]);
+
+  const setActive = useCallback(
+    (active: boolean) => {
+      if (!isRunning.current || active === isActive.current) {
+        return;
+      }
+      isActive.current = active;
+      if (active) {
+        clearTimers(idleTimers);
+      } else {
+        schedule(idleTimers, 'idle_timeout', idleTimeout.current);
+      }
+    },
+    [clearTimers, schedule],
+  );
+
+  useEffect(() => {
+    // clean up on unmount
+    return () => {
+      stop();
+    };
+  }, [stop]);
+
+  return { start, stop, recordActivity, setActive };
+};
@@ -3,6 +3,8 @@ import { useCallback, useRef, useState } from 'react';
 import { AudioOutput } from './types';
 import { convertLinearFrequenciesToBark } from './convertFrequencyScale';
 import { generateEmptyFft } from './generateEmptyFft';
+import { PlaybackMetrics, PlaybackScheduler } from './PlaybackScheduler';
+import { decodeAudioOutput } from './audio-decoder';
 
 
 export function convertBase64ToBlob(base64: string, contentType: string): Blob {
@@ -21,9 +23,31 @@ export function convertBase64ToBlob(base64: string, contentType: string): Blob {
   return new Blob([byteArray], { type: contentType });
 }
 
+// output gain while the user talks over the assistant
+const DUCKED_GAIN = 0.2;
+
+// not yet in the DOM typings; Chrome 110+
+type AudioContextWithSinkId = AudioContext & {
+  setSinkId?: (sinkId: string) => Promise<void>;
+};
+
+type ScheduledClip = {
+  source: AudioBufferSourceNode;
+  /** Pending report of the clip starting, cleared once it has fired. */
+  startTimeoutId: number | null;
+};
+
 export const useSoundPlayer = (props: {
   onError: (message: string) => void;
+  /** Called as each clip starts playing, with its turn id or else its id. */
   onPlayAudio: (id: string) => void;
+  /** Called as each clip starts playing, with the wall clock time. */
+  onPlayClip?: (buffer: AudioBuffer, startedAt: number) => void;
+  /**
+   * Milliseconds of audio to buffer before playback starts, and after it runs
+   * dry. Read when the player is initialized.
+   */
+  jitterBufferTarget?: number;
 }) => {
   const [isPlaying, setIsPlaying] = useState(false);
   const [isAudioMuted, setIsAudioMuted] = useState(false);
@@ -33,57 +57,43 @@ export const useSoundPlayer = (props: {
   const analyserNode = useRef<AnalyserNode | null>(null);
   const gainNode = useRef<GainNode | null>(null);
   const isInitialized = useRef(false);
+  const isMutedRef = useRef(false);
+  const isDucked = useRef(false);
 
-  const clipQueue = useRef<
-    Array<{
-      id: string;
-      buffer: AudioBuffer;
-    }>
-  >([]);
-  const isProcessing = useRef(false);
-  const currentlyPlayingAudioBuffer = useRef<AudioBufferSourceNode | null>(
-    null,
-  );
+  // the chosen output device, or null for the default
+  const sinkId = useRef<string | null>(null);
+  // output is routed through this where the context cannot choose a device
+  const outputElement = useRef<HTMLAudioElement | null>(null);
+
+  const scheduler = useRef<PlaybackScheduler | null>(null);
+  // clips handed to the audio context that have not finished playing yet
+  const scheduledClips = useRef<ScheduledClip[]>([]);
   const frequencyDataIntervalId = useRef<number | null>(null);
+  // the last clip being decoded, which the next one is scheduled after
+  const pendingDecode = useRef<Promise<void>>(Promise.resolve());
+  // bumped whenever the queue is cleared, to drop clips still being decoded
+  const queueGeneration = useRef(0);
+
+  const jitterBufferTarget = useRef(props.jitterBufferTarget);
+  jitterBufferTarget.current = props.jitterBufferTarget;
 
   const onPlayAudio = useRef<typeof props.onPlayAudio>(props.onPlayAudio);
   onPlayAudio.current = props.onPlayAudio;
 
+  const onPlayClip = useRef(props.onPlayClip);
+  onPlayClip.current = props.onPlayClip;
+
   const onError = useRef<typeof props.onError>(props.onError);
   onError.current = props.onError;
 
-  const playNextClip = useCallback(() => {
-    if (analyserNode.current === null || audioContext.current === null) {
-      onError.current('Audio environment is not initialized');
-      return;
-    }
-
-    if (clipQueue.current.length === 0 || isProcessing.current) {
+  const startFrequencyData = useCallback((sampleRate: number) => {
+    if (frequencyDataIntervalId.current !== null) {
       return;
     }
 
-    const nextClip = clipQueue.current.shift();
-    if (!nextClip) return;
-
-    isProcessing.current = true;
-    setIsPlaying(true);
-
-    // Use AudioBufferSourceNode for audio playback.
-    // Safari suffered a truncation issue using HTML5 audio playback
-    const bufferSource = audioContext.current.createBufferSource();
-
-    bufferSource.buffer = nextClip.buffer;
-
-    bufferSource.connect(analyserNode.current);
-
-    currentlyPlayingAudioBuffer.current = bufferSource;
-
     const updateFrequencyData = () => {
       try {
-        const bufferSampleRate = bufferSource.buffer?.sampleRate;
-
-        if (!analyserNode.current || typeof bufferSampleRate === 'undefined')
-          return;
+        if (!analyserNode.current) return;
 
         const dataArray = new Uint8Array(
           analyserNode.current.frequencyBinCount,
@@ -92,7 +102,7 @@ export const useSoundPlayer = (props: {
 
         const barkFrequencies = convertLinearFrequenciesToBark(
           dataArray,
-          bufferSampleRate,
+          sampleRate,
         );
         setFft(() => barkFrequencies);
       } catch (e) {
@@ -104,23 +114,147 @@ export const useSoundPlayer = (props: {
       updateFrequencyData,
       5,
     );
+  }, []);
 
-    bufferSource.start(0);
-    onPlayAudio.current(nextClip.id);
+  const stopFrequencyData = useCallback(() => {
+    if (frequencyDataIntervalId.current !== null) {
+      window.clearInterval(frequencyDataIntervalId.current);
+      frequencyDataIntervalId.current = null;
+    }
+    setFft(generateEmptyFft());
+  }, []);
 
-    bufferSource.onended = () => {
-      if (frequencyDataIntervalId.current) {
-        clearInterval(frequencyDataIntervalId.current);
+  /**
+   * Stop and forget every scheduled clip, including those yet to start.
+   */
+  const cancelScheduledClips = useCallback(() => {
+    scheduledClips.current.forEach((clip) => {
+      if (clip.startTimeoutId !== null) {
+        window.clearTimeout(clip.startTimeoutId);
       }
-      setFft(generateEmptyFft());
-      bufferSource.disconnect();
-      isProcessing.current = false;
-      setIsPlaying(false);
-      currentlyPlayingAudioBuffer.current = null;
-      playNextClip();
-    };
+      try {
+        clip.source.stop();
+      } catch (e) {
+        // the source may already have stopped
+      }
+      clip.source.disconnect();
+    });
+    scheduledClips.current = [];
+    queueGeneration.current++;
+    scheduler.current?.clear();
+    stopFrequencyData();
+    setIsPlaying(false);
+  }, [stopFrequencyData]);
+
+  /**
+   * Schedule a clip straight after the ones before it, so that consecutive
+   * clips play without gaps however small they are.
+   */
+  const scheduleClip = useCallback(
+    (id: string, buffer: AudioBuffer) => {
+      const context = audioContext.current;
+      if (
+        analyserNode.current === null ||
+        context === null ||
+        scheduler.current === null
+      ) {
+        onError.current('Audio environment is not initialized');
+        return;
+      }
+
+      const { startTime } = scheduler.current.schedule(
+        buffer.duration,
+        context.currentTime,
+      );
+
+      // Use AudioBufferSourceNode for audio playback.
+      // Safari suffered a truncation issue using HTML5 audio playback
+      const bufferSource = context.createBufferSource();
+      bufferSource.buffer = buffer;
+      bufferSource.connect(analyserNode.current);
+      bufferSource.start(startTime);
+
+      const delay = Math.max(0, (startTime - context.currentTime) * 1000);
+      const clip: ScheduledClip = {
+        source: bufferSource,
+        startTimeoutId: null,
+      };
+      // report the clip when it is heard rather than when it is scheduled
+      clip.startTimeoutId = window.setTimeout(() => {
+        clip.startTimeoutId = null;
+        onPlayAudio.current(id);
+      }, delay);
+      onPlayClip.current?.(buffer, Date.now() + delay);
+
+      bufferSource.onended = () => {
+        const index = scheduledClips.current.indexOf(clip);
+        if (index === -1) {
+          // already cancelled
+          return;
+        }
+        bufferSource.disconnect();
+        scheduledClips.current.splice(index, 1);
+        if (scheduledClips.current.length === 0) {
+          stopFrequencyData();
+          setIsPlaying(false);
+        }
+      };
+
+      scheduledClips.current.push(clip);
+      startFrequencyData(buffer.sampleRate);
+      setIsPlaying(true);
+    },
+    [startFrequencyData, stopFrequencyData],
+  );
+
+  /**
+   * Send playback to another device. Only the end of the graph is rerouted,
+   * so the clip queue carries on uninterrupted.
+   */
+  const routeOutput = useCallback(async (deviceId: string | null) => {
+    const context = audioContext.current as AudioContextWithSinkId | null;
+    const gain = gainNode.current;
+    if (!context || !gain) {
+      return;
+    }
+
+    if (typeof context.setSinkId === 'function') {
+      await context.setSinkId(deviceId ?? '');
+      return;
+    }
+
+    if (outputElement.current) {
+      await outputElement.current.setSinkId(deviceId ?? '');
+      return;
+    }
+    if (deviceId === null) {
+      // already on the default device
+      return;
+    }
+    if (!('setSinkId' in HTMLMediaElement.prototype)) {
+      throw new Error('This browser cannot choose an output device');
+    }
+
+    const destination = context.createMediaStreamDestination();
+    const element = new Audio();
+    element.srcObject = destination.stream;
+    await element.setSinkId(deviceId);
+    // connect the new route before dropping the old one to avoid a gap
+    gain.connect(destination);
+    gain.disconnect(context.destination);
+    await element.play();
+
+    outputElement.current = element;
   }, []);
 
+  const selectOutputDevice = useCallback(
+    async (deviceId: string | null) => {
+      await routeOutput(deviceId);
+      sinkId.current = deviceId;
+    },
+    [routeOutput],
+  );
+
   const initPlayer = useCallback(() => {
     const initAudioContext = new AudioContext();
     audioContext.current = initAudioContext;
@@ -137,73 +271,79 @@ export const useSoundPlayer = (props: {
     analyserNode.current = analyser;
     gainNode.current = gain;
 
+    scheduler.current = new PlaybackScheduler({
+      jitterBufferTarget: jitterBufferTarget.current,
+    });
+
     isInitialized.current = true;
-  }, []);
+
+    if (sinkId.current !== null) {
+      routeOutput(sinkId.current).catch((e: unknown) => {
+        const message = e instanceof Error ? e.message : 'Unknown error';
+        onError.current(`Failed to select output device: ${message}`);
+      });
+    }
+  }, [routeOutput]);
 
   const addToQueue = useCallback(
     async (message: AudioOutput) => {
-      if (!isInitialized.current || !audioContext.current) {
+      const context = audioContext.current;
+      if (!isInitialized.current || !context) {
         onError.current('Audio player has not been initialized');
         return;
       }
 
-      try {
-        const arrayBuffer = message.data;
-        const numberOfChannels = 1;
-        const sampleRate = 16000;
-        const numberOfFrames = arrayBuffer.byteLength / (numberOfChannels * 2);
-
-        const audioBuffer = audioContext.current.createBuffer(numberOfChannels, numberOfFrames, sampleRate);
-
-        for (let channel = 0; channel < numberOfChannels; channel++) {
-            const nowBuffering = audioBuffer.getChannelData(channel);
-            const int16Array = new Int16Array(arrayBuffer, channel * numberOfFrames * 2, numberOfFrames);
-            const float32Array = new Float32Array(int16Array.length);
-
-            for (let i = 0; i < int16Array.length; i++) {
-              float32Array[i] = int16Array[i] / 32768.0;
-            }
-
-            nowBuffering.set(float32Array);
+      // decode clips side by side, as compressed ones take a while, but
+      // schedule them in the order they arrived
+      const generation = queueGeneration.current;
+      // settled right away, so that a failure does not go unhandled while
+      // earlier clips are still decoding
+      const decoded = decodeAudioOutput(
+        message.data,
+        message.format,
+        context,
+      ).then(
+        (audioBuffer) => ({ audioBuffer }),
+        (error: unknown) => ({ error }),
+      );
+      const scheduled = pendingDecode.current.then(async () => {
+        const result = await decoded;
+        if (generation !== queueGeneration.current) {
+          // the queue was cleared while this clip was decoding
+          return;
         }
-
-        clipQueue.current.push({
-          id: message.id,
-          buffer: audioBuffer,
-        });
-
-        // playNextClip will iterate the clipQueue upon finishing the playback of the current audio clip, so we can
-        // just call playNextClip here if it's the only one in the queue
-        if (clipQueue.current.length === 1) {
-          playNextClip();
+        try {
+          if ('error' in result) {
+            throw result.error;
+          }
+          // a chunk of a streamed turn is reported as the turn
+          scheduleClip(message.turnId ?? message.id, result.audioBuffer);
+        } catch (e) {
+          const eMessage = e instanceof Error ? e.message : 'Unknown error';
+          onError.current(`Failed to add clip to queue: ${eMessage}`);
         }
-      } catch (e) {
-        const eMessage = e instanceof Error ? e.message : 'Unknown error';
-        onError.current(`Failed to add clip to queue: ${eMessage}`);
-      }
+      });
+      pendingDecode.current = scheduled;
+      await scheduled;
     },
-    [playNextClip],
+    [scheduleClip],
   );
 
   const stopAll = useCallback(() => {
     isInitialized.current = false;
-    isProcessing.current = false;
-    setIsPlaying(false);
-
-    if (frequencyDataIntervalId.current) {
-      window.clearInterval(frequencyDataIntervalId.current);
-    }
-
-    if (currentlyPlayingAudioBuffer.current) {
-      currentlyPlayingAudioBuffer.current.disconnect();
-      currentlyPlayingAudioBuffer.current = null;
-    }
+    cancelScheduledClips();
 
     if (analyserNode.current) {
       analyserNode.current.disconnect();
       analyserNode.current = null;
     }
 
+    if (outputElement.current) {
+      outputElement.current.pause();
+      outputElement.current.srcObject = null;
+      outputElement.current = null;
+    }
+
     if (audioContext.current) {
       void audioContext.current
         .close()
@@ -218,35 +358,61 @@ export const useSoundPlayer = (props: {
         });
     }
 
-    clipQueue.current = [];
-    setFft(generateEmptyFft());
+    scheduler.current = null;
+  }, [cancelScheduledClips]);
+
+  const applyGain = useCallback((ducked: boolean) => {
+    isDucked.current = ducked;
+    if (gainNode.current && audioContext.current) {
+      const gain = isMutedRef.current ? 0 : ducked ? DUCKED_GAIN : 1;
+      gainNode.current.gain.setValueAtTime(
+        gain,
+        audioContext.current.currentTime,
+      );
+    }
   }, []);
 
   const clearQueue = useCallback(() => {
-    if (currentlyPlayingAudioBuffer.current) {
-      currentlyPlayingAudioBuffer.current.stop();
-      currentlyPlayingAudioBuffer.current = null;
+    cancelScheduledClips();
+    applyGain(false);
+  }, [applyGain, cancelScheduledClips]);
+
+  /**
+   * Playback health since the player was initialized, or null before then.
+   */
+  const getPlaybackMetrics = useCallback((): PlaybackMetrics | null => {
+    if (!scheduler.current || !audioContext.current) {
+      return null;
     }
-
-    clipQueue.current = [];
-    isProcessing.current = false;
-    setIsPlaying(false);
-    setFft(generateEmptyFft());
+    return scheduler.current.getMetrics(audioContext.current.currentTime);
   }, []);
 
   const muteAudio = useCallback(() => {
     if (gainNode.current && audioContext.current) {
-      gainNode.current.gain.setValueAtTime(0, audioContext.current.currentTime);
+      isMutedRef.current = true;
+      applyGain(isDucked.current);
       setIsAudioMuted(true);
     }
-  }, []);
+  }, [applyGain]);
 
   const unmuteAudio = useCallback(() => {
     if (gainNode.current && audioContext.current) {
-      gainNode.current.gain.setValueAtTime(1, audioContext.current.currentTime);
+      isMutedRef.current = false;
+      applyGain(isDucked.current);
       setIsAudioMuted(false);
     }
-  }, []);
+  }, [applyGain]);
+
+  /**
+   * Lower the volume of playback without stopping it, e.g. while the user
+   * may be talking over the assistant. `clearQueue` restores it.
+   */
+  const duck = useCallback(
+    (ducked: boolean) => {
+      applyGain(ducked);
+    },
+    [applyGain],
+  );
 
   return {
     addToQueue,
@@ -258,5 +424,8 @@ export const useSoundPlayer = (props: {
     unmuteAudio,
     stopAll,
     clearQueue,
+    duck,
+    selectOutputDevice,
+    getPlaybackMetrics,
   };
 };
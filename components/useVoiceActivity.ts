@@ -0,0 +1,106 @@
+import { useCallback, useMemo, useRef, useState } from 'react';
+
+import { decodeToMono } from './audio-encoder';
+import type { CapturedAudioInfo } from './audio-frame';
+import {
+  type SpeechDetector,
+  SpeechGate,
+  VoiceActivityDetector,
+} from './VoiceActivityDetector';
+
+type CapturedFrame = {
+  data: ArrayBuffer;
+  info: CapturedAudioInfo;
+};
+
+export type VoiceActivityProps = {
+  detector?: SpeechDetector;
+  minSpeechDuration?: number;
+  hangover?: number;
+  /** Hold back frames outside of speech instead of sending them. */
+  gateSilence: boolean;
+  /**
+   * Milliseconds of audio from before speech was detected to send along with
+   * it when gating, since detection lags the start of speech.
+   */
+  preRoll: number;
+  sendAudio: (data: ArrayBuffer, info: CapturedAudioInfo) => void;
+  onSpeechStart: () => void;
+  onSpeechEnd: () => void;
+  /** Called with every decoded frame, before it is sent or held back. */
+  onFrame?: (samples: Float32Array, info: CapturedAudioInfo) => void;
+};
+
+/**
+ * Runs voice activity detection on captured frames before they are sent.
+ */
+export const useVoiceActivity = (props: VoiceActivityProps) => {
+  const { detector, minSpeechDuration, hangover } = props;
+  const [isSpeaking, setIsSpeaking] = useState(false);
+
+  const gateSilence = useRef(props.gateSilence);
+  gateSilence.current = props.gateSilence;
+
+  const preRoll = useRef(props.preRoll);
+  preRoll.current = props.preRoll;
+
+  const sendAudio = useRef(props.sendAudio);
+  sendAudio.current = props.sendAudio;
+
+  const onSpeechStart = useRef(props.onSpeechStart);
+  onSpeechStart.current = props.onSpeechStart;
+
+  const onSpeechEnd = useRef(props.onSpeechEnd);
+  onSpeechEnd.current = props.onSpeechEnd;
+
+  const onFrame = useRef(props.onFrame);
+  onFrame.current = props.onFrame;
+
+  const vad = useMemo(
+    () => new VoiceActivityDetector({ detector, minSpeechDuration, hangover }),
+    [detector, minSpeechDuration, hangover],
+  );
+
+  const speechGate = useMemo(() => new SpeechGate<CapturedFrame>(), []);
+
+  const processAudio = useCallback(
+    (data: ArrayBuffer, info: CapturedAudioInfo) => {
+      const samples = decodeToMono(data, info.encoding, info.channels);
+      onFrame.current?.(samples, info);
+      const event = vad.process(samples, info.sampleRate);
+
+      const frames = speechGate.process(
+        { data, info },
+        (samples.length / info.sampleRate) * 1000,
+        {
+          event,
+          isSpeaking: vad.isSpeaking,
+          gate: gateSilence.current,
+          preRoll: preRoll.current,
+        },
+      );
+      // the last frame of an utterance goes out before anything onSpeechEnd
+      // sends after it
+      frames.forEach((frame) => {
+        sendAudio.current(frame.data, frame.info);
+      });
+
+      if (event === 'speechStart') {
+        setIsSpeaking(true);
+        onSpeechStart.current();
+      } else if (event === 'speechEnd') {
+        setIsSpeaking(false);
+        onSpeechEnd.current();
+      }
+    },
+    [vad, speechGate],
+  );
+
+  const reset = useCallback(() => {
+    vad.reset();
+    speechGate.reset();
+    setIsSpeaking(false);
+  }, [vad, speechGate]);
+
+  return { isSpeaking, processAudio, reset };
+};
@@ -1,25 +1,106 @@
 "use client";
 
 import { useCallback, useRef, useState } from 'react';
-import { AudioOutput, JsonMessage, AssistantMessage, UserMessage, SessionSettings } from './types';
-import { ChatSocket } from './ChatSocket';
-import { ReconnectingWebSocket } from './WebSocket';
+import { AudioOutput, SessionSettings } from './types';
+import { type AudioBufferPolicy, ChatSocket } from './ChatSocket';
+import { ReconnectingWebSocket, type Options, type UrlProvider } from './WebSocket';
+import { appendQueryParams } from '../utils';
+import type { CapturedAudioInfo } from './audio-frame';
+import { type VoiceClientMessage, dispatchMessage } from './message-dispatch';
 
-import { type AuthStrategy } from './auth';
+import { type AuthProvider, getAuthQueryParams, resolveAuth } from './auth';
 
-const isNever = (_n: never) => {
-  return;
+export type { VoiceClientMessage };
+
+/**
+ * Backoff and retry options forwarded to each `ReconnectingWebSocket`.
+ * Unset options use the socket defaults, which retry forever. `maxRetries`
+ * also bounds the initial connection, which otherwise keeps trying until
+ * the call is disconnected.
+ */
+export type ReconnectOptions = Pick<
+  Options,
+  | 'minReconnectionDelay'
+  | 'maxReconnectionDelay'
+  | 'reconnectionDelayGrowFactor'
+  | 'minUptime'
+  | 'connectionTimeout'
+  | 'maxRetries'
+  | 'maxEnqueuedMessages'
+  | 'heartbeat'
+>;
+
+export type SocketConfig = ReconnectOptions & {
+  /** Credentials attached to every socket URL. */
+  auth?: AuthProvider;
+  audioBufferPolicy?: AudioBufferPolicy;
+  /**
+   * @default false
+   * @description Send microphone audio in the framed format of `audio-frame.ts`.
+   */
+  framedAudio?: boolean;
+} & (
+  | {
+      /** URL of the socket that audio and client messages are sent on. */
+      sendHostname: string;
+      /** URL of the socket that server responses are received on. */
+      recvHostname: string;
+      hostname?: never;
+    }
+  | {
+      /** URL of a single bidirectional socket. */
+      hostname: string;
+      sendHostname?: never;
+      recvHostname?: never;
+    }
+);
+
+export type ConnectOptions = {
+  /**
+   * Chat group to continue, taken from `ChatMetadata.chatGroupId` of an
+   * earlier connection.
+   */
+  resumeChatGroupId?: string;
 };
 
-export type SocketConfig = {
-  sendHostname: string;
-  recvHostname: string;
-}
+const createChatSocket = (
+  config: SocketConfig,
+  createUrl: (hostname: string) => UrlProvider,
+): ChatSocket => {
+  const options: ReconnectOptions = {
+    minReconnectionDelay: config.minReconnectionDelay,
+    maxReconnectionDelay: config.maxReconnectionDelay,
+    reconnectionDelayGrowFactor: config.reconnectionDelayGrowFactor,
+    minUptime: config.minUptime,
+    connectionTimeout: config.connectionTimeout,
+    maxRetries: config.maxRetries,
+    maxEnqueuedMessages: config.maxEnqueuedMessages,
+    heartbeat: config.heartbeat,
+  };
+
+  if (config.hostname !== undefined) {
+    return new ChatSocket({
+      socket: new ReconnectingWebSocket(createUrl(config.hostname), undefined, options),
+      audioBufferPolicy: config.audioBufferPolicy,
+      framedAudio: config.framedAudio,
+    });
+  }
+  const sendSocket = new ReconnectingWebSocket(createUrl(config.sendHostname), undefined, options);
+  const recvSocket = new ReconnectingWebSocket(createUrl(config.recvHostname), undefined, options);
+  return new ChatSocket({
+    sendSocket,
+    recvSocket,
+    audioBufferPolicy: config.audioBufferPolicy,
+    framedAudio: config.framedAudio,
+  });
+};
 
 export enum VoiceReadyState {
   IDLE = 'idle',
   CONNECTING = 'connecting',
   OPEN = 'open',
+  DEGRADED = 'degraded',
+  RECONNECTING = 'reconnecting',
   CLOSED = 'closed',
 }
 
@@ -27,17 +108,24 @@ export enum VoiceReadyState {
 export const useVoiceClient = (props: {
   onAudioMessage?: (message: AudioOutput) => void;
   onMessage?: (
-    message: JsonMessage & { receivedAt: Date },
+    message: VoiceClientMessage & { receivedAt: Date },
   ) => void;
   onError?: (message: string, error?: Error) => void;
+  /** Called with an inbound frame that was dropped because it could not be parsed. */
+  onParseError?: (error: Error) => void;
   onOpen?: () => void;
   onClose?: () => void;
+  onReconnecting?: (attempt: number) => void;
+  onReconnect?: () => void;
 }) => {
   const client = useRef<ChatSocket | null>(null);
+  const chatGroupId = useRef<string | undefined>(undefined);
 
   const [readyState, setReadyState] = useState<VoiceReadyState>(
     VoiceReadyState.IDLE,
   );
+  const [roundTripTime, setRoundTripTime] = useState<number | null>(null);
+  const [droppedAudioFrames, setDroppedAudioFrames] = useState(0);
 
   // this pattern might look hacky but it allows us to use the latest props
   // in callbacks set up inside useEffect without re-rendering the useEffect
@@ -52,18 +140,38 @@ export const useVoiceClient = (props: {
   const onError = useRef<typeof props.onError>(props.onError);
   onError.current = props.onError;
 
+  const onParseError = useRef<typeof props.onParseError>(props.onParseError);
+  onParseError.current = props.onParseError;
+
   const onOpen = useRef<typeof props.onOpen>(props.onOpen);
   onOpen.current = props.onOpen;
 
   const onClose = useRef<typeof props.onClose>(props.onClose);
   onClose.current = props.onClose;
 
-  const connect = useCallback((config: SocketConfig) => {
+  const onReconnecting = useRef<typeof props.onReconnecting>(
+    props.onReconnecting,
+  );
+  onReconnecting.current = props.onReconnecting;
+
+  const onReconnect = useRef<typeof props.onReconnect>(props.onReconnect);
+  onReconnect.current = props.onReconnect;
+
+  const connect = useCallback((config: SocketConfig, options: ConnectOptions = {}) => {
     return new Promise((resolve, reject) => {
-      console.log('cfg', config)
-      const sendSocket = new ReconnectingWebSocket(`${config.sendHostname}`);
-      const recvSocket = new ReconnectingWebSocket(`${config.recvHostname}`);
-      client.current = new ChatSocket({ sendSocket, recvSocket })
+      chatGroupId.current = options.resumeChatGroupId;
+      // resolved on every connection attempt, so that a reconnect resumes the
+      // chat group reported by the server rather than starting a new one
+      // auth is resolved per attempt too, so access tokens are refreshed
+      const createUrl = (hostname: string) => async () =>
+        appendQueryParams(hostname, {
+          resumed_chat_group_id: chatGroupId.current,
+          ...(config.auth
+            ? getAuthQueryParams(await resolveAuth(config.auth))
+            : {}),
+        });
+      client.current = createChatSocket(config, createUrl);
+      setDroppedAudioFrames(0);
 
       client.current.on('open', () => {
         onOpen.current?.();
@@ -71,48 +179,45 @@ export const useVoiceClient = (props: {
         resolve(VoiceReadyState.OPEN);
       });
 
-      client.current.on('message', (message) => {
-        if (message.type === 'audio_output') {
-          const messageWithReceivedAt = { ...message, receivedAt: new Date() };
-          if (message.question) {
-            const questionMessage: UserMessage = {
-              type: 'user_message',
-              fromText: false,
-              message: {
-                role: 'user',
-                content: message.question,
-              },
-              receivedAt: new Date(),
-            };
-            // @ts-ignore
-            onMessage.current?.(questionMessage);
-          }
-          if (message.answer) {
-            const textMessage: AssistantMessage = {
-              type: 'assistant_message',
-              id: message.id,
-              fromText: false,
-              message: {
-                role: 'assistant',
-                content: message.answer,
-              },
-              receivedAt: new Date(),
-            };
-            // @ts-ignore
-            onMessage.current?.(textMessage);
-          }
-          // delay 100ms to make sure the audio message is played after the text message
-
-          setTimeout(() => {
-            onAudioMessage.current?.(messageWithReceivedAt);
-          }, 200);
+      client.current.on('stateChange', (state) => {
+        if (state === 'open') {
+          setReadyState(VoiceReadyState.OPEN);
           return;
         }
+        // the last round trip time says nothing about a dropped connection
+        setRoundTripTime(null);
+        if (state === 'degraded') {
+          setReadyState(VoiceReadyState.DEGRADED);
+        } else if (state === 'reconnecting') {
+          setReadyState(VoiceReadyState.RECONNECTING);
+        }
+      });
+
+      client.current.on('reconnecting', (attempt) => {
+        onReconnecting.current?.(attempt);
+      });
 
-        // asserts that all message types are handled
-        // @ts-ignore
-        isNever(message);
-        return;
+      client.current.on('reconnect', () => {
+        onReconnect.current?.();
+      });
+
+      client.current.on('audioDropped', (count) => {
+        setDroppedAudioFrames(count);
+      });
+
+      client.current.on('roundTripTime', (time) => {
+        setRoundTripTime(Math.round(time));
+      });
+
+      client.current.on('message', (message) => {
+        if (message.type === 'chat_metadata') {
+          chatGroupId.current = message.chatGroupId;
+        }
+        dispatchMessage(message, {
+          onMessage: (message) => onMessage.current?.(message),
+          onAudioMessage: (message) => onAudioMessage.current?.(message),
+          onError: (message, error) => onError.current?.(message, error),
+        });
       });
 
       client.current.on('close', (event) => {
@@ -120,6 +225,10 @@ export const useVoiceClient = (props: {
         setReadyState(VoiceReadyState.CLOSED);
       });
 
+      client.current.on('parseError', (e) => {
+        onParseError.current?.(e);
+      });
+
       client.current.on('error', (e) => {
         const message = e instanceof Error ? e.message : 'Unknown error';
         onError.current?.(message, e instanceof Error ? e : undefined);
@@ -132,6 +241,7 @@ export const useVoiceClient = (props: {
 
   const disconnect = useCallback(() => {
     setReadyState(VoiceReadyState.IDLE);
+    setRoundTripTime(null);
     client.current?.close();
   }, []);
 
@@ -142,9 +252,12 @@ export const useVoiceClient = (props: {
     [],
   );
 
-  const sendAudio = useCallback((arrayBuffer: ArrayBufferLike) => {
-    client.current?.sendSocket?.send(arrayBuffer);
-  }, []);
+  const sendAudio = useCallback(
+    (arrayBuffer: ArrayBufferLike, info: CapturedAudioInfo) => {
+      client.current?.sendAudio(arrayBuffer, info);
+    },
+    [],
+  );
 
   const sendUserInput = useCallback((text: string) => {
     client.current?.sendUserInput(text);
@@ -163,8 +276,18 @@ export const useVoiceClient = (props: {
     client.current?.resumeAssistant({});
   }, []);
 
+  const sendEndOfUtterance = useCallback(() => {
+    client.current?.sendEndOfUtterance({});
+  }, []);
+
+  const sendUserInterruption = useCallback((time: number) => {
+    client.current?.sendUserInterruption({ time });
+  }, []);
+
   return {
     readyState,
+    roundTripTime,
+    droppedAudioFrames,
     sendSessionSettings,
     sendAudio,
     connect,
@@ -173,5 +296,7 @@ export const useVoiceClient = (props: {
     sendAssistantInput,
     sendPauseAssistantMessage,
     sendResumeAssistantMessage,
+    sendEndOfUtterance,
+    sendUserInterruption,
   };
 };
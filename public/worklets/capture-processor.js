@@ -0,0 +1,194 @@
+// AudioWorklet processor that captures microphone audio off the main thread.
+//
+// Worklets are loaded as standalone scripts, so the resampling and encoding
+// below mirror components/Resampler.ts and components/audio-encoder.ts. Keep
+// them in sync.
+//
+// processorOptions:
+//   channels          number of channels to emit
+//   targetSampleRate  rate to resample to, in Hz
+//   encoding          'linear16' or 'float32'
+//   frameSize         samples per channel in each emitted frame
+//
+// Each frame is posted as { data: ArrayBuffer, startTime: number } with `data`
+// transferred; `startTime` is the context time of the first sample.
+
+const ZERO_CROSSINGS = 16;
+const ROLLOFF = 0.945;
+const KAISER_BETA = 8.6;
+const MAX_PHASES = 1024;
+
+const gcd = (a, b) => (b === 0 ? a : gcd(b, a % b));
+
+const sinc = (x) => (x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x));
+
+const besselI0 = (x) => {
+  let sum = 1;
+  let term = 1;
+  const halfX = x / 2;
+  for (let k = 1; k < 50; k++) {
+    term *= (halfX / k) * (halfX / k);
+    sum += term;
+    if (term < sum * 1e-12) {
+      break;
+    }
+  }
+  return sum;
+};
+
+class Resampler {
+  constructor(inputRate, outputRate) {
+    const divisor = gcd(inputRate, outputRate);
+    this.up = outputRate / divisor;
+    this.down = inputRate / divisor;
+    this.phases = Math.min(this.up, MAX_PHASES);
+
+    const cutoff = Math.min(1, outputRate / inputRate) * ROLLOFF;
+    this.halfTaps = Math.ceil(ZERO_CROSSINGS / cutoff);
+
+    const windowNorm = besselI0(KAISER_BETA);
+    this.filters = [];
+    for (let p = 0; p <= this.phases; p++) {
+      const fraction = p / this.phases;
+      const filter = new Float32Array(2 * this.halfTaps);
+      let sum = 0;
+      for (let j = 0; j < filter.length; j++) {
+        const x = j - this.halfTaps + 1 - fraction;
+        const w = x / this.halfTaps;
+        const window =
+          Math.abs(w) >= 1
+            ? 0
+            : besselI0(KAISER_BETA * Math.sqrt(1 - w * w)) / windowNorm;
+        const value = cutoff * sinc(cutoff * x) * window;
+        filter[j] = value;
+        sum += value;
+      }
+      for (let j = 0; j < filter.length; j++) {
+        filter[j] /= sum;
+      }
+      this.filters.push(filter);
+    }
+
+    this.buffer = new Float32Array(this.halfTaps - 1);
+    this.position = (this.halfTaps - 1) * this.up;
+  }
+
+  process(input) {
+    if (this.up === this.down) {
+      return input.slice();
+    }
+
+    const buffer = new Float32Array(this.buffer.length + input.length);
+    buffer.set(this.buffer);
+    buffer.set(input, this.buffer.length);
+
+    const output = [];
+    for (;;) {
+      const index = Math.floor(this.position / this.up);
+      const start = index - this.halfTaps + 1;
+      if (index + this.halfTaps >= buffer.length) {
+        break;
+      }
+      const phase = Math.round(
+        ((this.position % this.up) * this.phases) / this.up,
+      );
+      const filter = this.filters[phase];
+      let sample = 0;
+      for (let j = 0; j < filter.length; j++) {
+        sample += buffer[start + j] * filter[j];
+      }
+      output.push(sample);
+      this.position += this.down;
+    }
+
+    const consumed = Math.max(
+      0,
+      Math.floor(this.position / this.up) - this.halfTaps + 1,
+    );
+    this.buffer = buffer.slice(consumed);
+    this.position -= consumed * this.up;
+
+    return Float32Array.from(output);
+  }
+}
+
+const encode = (encoding, channels, frames) => {
+  const bytesPerSample = encoding === 'linear16' ? 2 : 4;
+  const view = new DataView(
+    new ArrayBuffer(frames * channels.length * bytesPerSample),
+  );
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < channels.length; c++) {
+      const offset = (i * channels.length + c) * bytesPerSample;
+      if (encoding === 'linear16') {
+        const sample = Math.max(-1, Math.min(1, channels[c][i]));
+        view.setInt16(
+          offset,
+          sample < 0 ? sample * 0x8000 : sample * 0x7fff,
+          true,
+        );
+      } else {
+        view.setFloat32(offset, channels[c][i], true);
+      }
+    }
+  }
+  return view.buffer;
+};
+
+class CaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { channels, targetSampleRate, encoding, frameSize } =
+      options.processorOptions;
+
+    this.channels = channels;
+    this.targetSampleRate = targetSampleRate;
+    this.encoding = encoding;
+    this.frameSize = frameSize;
+
+    // `sampleRate` is the context rate, a global of the worklet scope
+    this.resamplers = Array.from(
+      { length: channels },
+      () => new Resampler(sampleRate, targetSampleRate),
+    );
+    this.pending = Array.from({ length: channels }, () => []);
+    this.pendingStartTime = null;
+  }
+
+  process(inputs) {
+    const input = inputs[0];
+    if (!input || input.length === 0) {
+      return true;
+    }
+
+    if (this.pendingStartTime === null) {
+      this.pendingStartTime = currentTime;
+    }
+
+    for (let c = 0; c < this.channels; c++) {
+      // repeat the last input channel if the device has fewer channels
+      const samples = input[Math.min(c, input.length - 1)];
+      const resampled = this.resamplers[c].process(samples);
+      for (let i = 0; i < resampled.length; i++) {
+        this.pending[c].push(resampled[i]);
+      }
+    }
+
+    while (this.pending[0].length >= this.frameSize) {
+      const frame = this.pending.map((samples) =>
+        samples.splice(0, this.frameSize),
+      );
+      const data = encode(this.encoding, frame, this.frameSize);
+      this.port.postMessage({ data, startTime: this.pendingStartTime }, [data]);
+      this.pendingStartTime += this.frameSize / this.targetSampleRate;
+    }
+
+    if (this.pending[0].length === 0) {
+      this.pendingStartTime = null;
+    }
+
+    return true;
+  }
+}
+
+registerProcessor('fx-capture-processor', CaptureProcessor);
@@ -0,0 +1,34 @@
+import 'server-only';
+import { createHmac, randomUUID } from 'crypto';
+
+/**
+ * Lifetime of minted access tokens, in seconds. Sockets fetch a new token on
+ * every connection attempt, so this only needs to cover a single handshake.
+ */
+export const ACCESS_TOKEN_TTL_SECONDS = 300;
+
+const base64Url = (input: string | Buffer): string =>
+  Buffer.from(input).toString('base64url');
+
+/**
+ * Mints a short-lived access token of the form `<payload>.<signature>`, where
+ * the payload is base64url encoded JSON and the signature is an HMAC-SHA256
+ * of the encoded payload using `secret`.
+ */
+export const mintAccessToken = (
+  secret: string,
+  ttlSeconds: number = ACCESS_TOKEN_TTL_SECONDS,
+): string => {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const payload = base64Url(
+    JSON.stringify({
+      jti: randomUUID(),
+      iat: issuedAt,
+      exp: issuedAt + ttlSeconds,
+    }),
+  );
+  const signature = base64Url(
+    createHmac('sha256', secret).update(payload).digest(),
+  );
+  return `${payload}.${signature}`;
+};
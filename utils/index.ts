@@ -5,6 +5,23 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
+/**
+ * Returns `url` with the given query parameters set. Parameters whose value is
+ * `undefined` are left out.
+ */
+export const appendQueryParams = (
+  url: string,
+  params: Record<string, string | undefined>,
+): string => {
+  const result = new URL(url);
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined) {
+      result.searchParams.set(key, value);
+    }
+  });
+  return result.toString();
+};
+
 export const keepLastN = <T>(n: number, arr: T[]): T[] => {
   if (arr.length <= n) {
     return arr;